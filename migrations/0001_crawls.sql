@@ -0,0 +1,31 @@
+-- Crawl tables for databases created before /api/crawls was added.
+
+-- Multi-page site crawls
+CREATE TABLE IF NOT EXISTS crawls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    seed_url TEXT NOT NULL,
+    options TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    locked_until DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME
+);
+
+-- Pages discovered by a crawl, processed in resumable chunks
+CREATE TABLE IF NOT EXISTS crawl_pages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    crawl_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    host TEXT NOT NULL,
+    depth INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    analysis_id INTEGER,
+    score INTEGER,
+    failed_rules TEXT,
+    error TEXT,
+    analyzed_at DATETIME,
+    UNIQUE (crawl_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pages_status ON crawl_pages(crawl_id, status);
@@ -0,0 +1,23 @@
+-- Upgrade databases created before analyses stored structured issues.
+-- New databases get these columns and tables from schema.sql.
+-- Existing rows are backfilled by the cron trigger (issues re-derived from the stored HTML).
+
+ALTER TABLE seo_analyses ADD COLUMN title TEXT;
+ALTER TABLE seo_analyses ADD COLUMN meta_description TEXT;
+ALTER TABLE seo_analyses ADD COLUMN headings TEXT;
+ALTER TABLE seo_analyses ADD COLUMN analysis_result TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_url_created ON seo_analyses(url, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS analysis_issues (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    analysis_id INTEGER NOT NULL,
+    rule_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    weight INTEGER NOT NULL,
+    message TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_issues_analysis ON analysis_issues(analysis_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_issues_rule ON analysis_issues(rule_id);
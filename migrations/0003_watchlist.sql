@@ -0,0 +1,37 @@
+-- Watchlist monitoring tables for databases created before scheduled monitoring was added.
+
+-- URLs re-analyzed on a schedule by the cron trigger
+CREATE TABLE IF NOT EXISTS watchlist (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    interval_minutes INTEGER NOT NULL,
+    score_drop_threshold INTEGER NOT NULL,
+    webhook_url TEXT,
+    active INTEGER NOT NULL DEFAULT 1,
+    last_signals TEXT,
+    last_checked_at DATETIME,
+    -- Why the last scheduled check failed, cleared by the next check that completes
+    last_error TEXT,
+    next_run_at DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_due ON watchlist(active, next_run_at);
+
+-- Every regression alert sent (or attempted) for a watched URL
+CREATE TABLE IF NOT EXISTS watch_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    watch_id INTEGER NOT NULL,
+    analysis_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    rule_id TEXT,
+    dedupe_key TEXT NOT NULL,
+    message TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    response_status INTEGER,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_alerts_watch ON watch_alerts(watch_id, created_at);
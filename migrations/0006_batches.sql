@@ -0,0 +1,27 @@
+-- Batch analysis tables for databases created before /api/batches was added.
+
+-- Batch analyses of a submitted URL list
+CREATE TABLE IF NOT EXISTS batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    options TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    locked_until DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME
+);
+
+-- One row per submitted URL, processed in resumable chunks
+CREATE TABLE IF NOT EXISTS batch_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    analysis_id INTEGER,
+    score INTEGER,
+    cached INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    analyzed_at DATETIME,
+    UNIQUE (batch_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_items_status ON batch_items(batch_id, status);
@@ -0,0 +1,32 @@
+-- Projects and API keys for databases created before authentication was added.
+-- Rows created before this migration have no project and are only visible to the admin key.
+
+ALTER TABLE seo_analyses ADD COLUMN project_id INTEGER;
+ALTER TABLE user_sessions ADD COLUMN project_id INTEGER;
+ALTER TABLE crawls ADD COLUMN project_id INTEGER;
+ALTER TABLE watchlist ADD COLUMN project_id INTEGER;
+ALTER TABLE batches ADD COLUMN project_id INTEGER;
+
+-- Tenants that own analyses, crawls, batches, watches and chat sessions
+CREATE TABLE IF NOT EXISTS projects (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- API keys, stored as SHA-256 hashes; the prefix identifies a key without revealing it
+CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    rate_limit INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used_at DATETIME,
+    revoked_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_project ON api_keys(project_id);
+CREATE INDEX IF NOT EXISTS idx_seo_analyses_project ON seo_analyses(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_watchlist_project ON watchlist(project_id);
@@ -0,0 +1,5 @@
+-- Content hash column for databases created before raw HTML was dropped from analysis rows.
+-- New rows store the parsed page without its HTML. The cron backfill strips the HTML from
+-- older rows and sets their content_hash.
+
+ALTER TABLE seo_analyses ADD COLUMN content_hash TEXT;
@@ -0,0 +1,19 @@
+-- Content fingerprints for databases created before duplicate detection was added.
+-- Analyses saved before this migration have no fingerprint and are left out of duplicate reports.
+
+-- Hashes are SHA-256 of normalized text; simhash is 64 bits as 16 hex digits
+CREATE TABLE IF NOT EXISTS content_fingerprints (
+    analysis_id INTEGER PRIMARY KEY,
+    project_id INTEGER,
+    host TEXT NOT NULL,
+    url TEXT NOT NULL,
+    title_hash TEXT,
+    meta_hash TEXT,
+    text_hash TEXT,
+    simhash TEXT NOT NULL,
+    word_count INTEGER NOT NULL,
+    canonical TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_fingerprints_host ON content_fingerprints(host, url, analysis_id DESC);
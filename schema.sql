@@ -5,6 +5,12 @@ CREATE TABLE IF NOT EXISTS seo_analyses (
     analysis_data TEXT NOT NULL,
     score INTEGER,
     recommendations TEXT,
+    title TEXT,
+    meta_description TEXT,
+    headings TEXT,
+    analysis_result TEXT,
+    project_id INTEGER,
+    content_hash TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -12,9 +18,199 @@ CREATE TABLE IF NOT EXISTS seo_analyses (
 CREATE TABLE IF NOT EXISTS user_sessions (
     session_id TEXT PRIMARY KEY,
     context TEXT,
+    project_id INTEGER,
     last_active DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Index for faster lookups
-CREATE INDEX idx_url ON seo_analyses(url);
-CREATE INDEX idx_created ON seo_analyses(created_at DESC);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_url ON seo_analyses(url);
+CREATE INDEX IF NOT EXISTS idx_created ON seo_analyses(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_url_created ON seo_analyses(url, created_at DESC);
+
+-- Failed rules per analysis, so runs can be diffed issue by issue
+CREATE TABLE IF NOT EXISTS analysis_issues (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    analysis_id INTEGER NOT NULL,
+    rule_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    weight INTEGER NOT NULL,
+    message TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_issues_analysis ON analysis_issues(analysis_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_issues_rule ON analysis_issues(rule_id);
+
+-- Multi-page site crawls
+CREATE TABLE IF NOT EXISTS crawls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    seed_url TEXT NOT NULL,
+    options TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    project_id INTEGER,
+    locked_until DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME
+);
+
+-- Pages discovered by a crawl, processed in resumable chunks
+CREATE TABLE IF NOT EXISTS crawl_pages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    crawl_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    host TEXT NOT NULL,
+    depth INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    analysis_id INTEGER,
+    score INTEGER,
+    failed_rules TEXT,
+    error TEXT,
+    analyzed_at DATETIME,
+    UNIQUE (crawl_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_pages_status ON crawl_pages(crawl_id, status);
+
+-- URLs re-analyzed on a schedule by the cron trigger
+CREATE TABLE IF NOT EXISTS watchlist (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    interval_minutes INTEGER NOT NULL,
+    score_drop_threshold INTEGER NOT NULL,
+    webhook_url TEXT,
+    active INTEGER NOT NULL DEFAULT 1,
+    last_signals TEXT,
+    last_checked_at DATETIME,
+    -- Why the last scheduled check failed, cleared by the next check that completes
+    last_error TEXT,
+    next_run_at DATETIME NOT NULL,
+    project_id INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_due ON watchlist(active, next_run_at);
+
+-- Every regression alert sent (or attempted) for a watched URL
+CREATE TABLE IF NOT EXISTS watch_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    watch_id INTEGER NOT NULL,
+    analysis_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    rule_id TEXT,
+    dedupe_key TEXT NOT NULL,
+    message TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    response_status INTEGER,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_alerts_watch ON watch_alerts(watch_id, created_at);
+
+-- Every chat turn, replayed to the model as conversation history
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    metadata TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, id);
+
+-- Knowledge base documents; their chunks are embedded into Vectorize
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    format TEXT NOT NULL,
+    category TEXT NOT NULL,
+    source TEXT NOT NULL,
+    version TEXT NOT NULL,
+    content TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per vector; the id is a hash of the document id and chunk text
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+    id TEXT PRIMARY KEY,
+    document_id TEXT NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    text TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_chunks_document ON knowledge_chunks(document_id, chunk_index);
+
+-- Batch analyses of a submitted URL list
+CREATE TABLE IF NOT EXISTS batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    options TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    project_id INTEGER,
+    locked_until DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    completed_at DATETIME
+);
+
+-- One row per submitted URL, processed in resumable chunks
+CREATE TABLE IF NOT EXISTS batch_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    analysis_id INTEGER,
+    score INTEGER,
+    cached INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    analyzed_at DATETIME,
+    UNIQUE (batch_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_items_status ON batch_items(batch_id, status);
+
+-- Tenants that own analyses, crawls, batches, watches and chat sessions
+CREATE TABLE IF NOT EXISTS projects (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- API keys, stored as SHA-256 hashes; the prefix identifies a key without revealing it
+CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    rate_limit INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used_at DATETIME,
+    revoked_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_project ON api_keys(project_id);
+CREATE INDEX IF NOT EXISTS idx_seo_analyses_project ON seo_analyses(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_watchlist_project ON watchlist(project_id);
+
+-- Content fingerprints per analysis, for duplicate detection across a site's pages.
+-- Hashes are SHA-256 of normalized text; simhash is 64 bits as 16 hex digits.
+CREATE TABLE IF NOT EXISTS content_fingerprints (
+    analysis_id INTEGER PRIMARY KEY,
+    project_id INTEGER,
+    host TEXT NOT NULL,
+    url TEXT NOT NULL,
+    title_hash TEXT,
+    meta_hash TEXT,
+    text_hash TEXT,
+    simhash TEXT NOT NULL,
+    word_count INTEGER NOT NULL,
+    canonical TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_fingerprints_host ON content_fingerprints(host, url, analysis_id DESC);
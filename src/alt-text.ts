@@ -0,0 +1,84 @@
+import { resolveUrl } from './urls';
+import type { SeoRule } from './rules';
+import type { PageData } from './types';
+
+// Image alt text quality: missing, empty and file names left in place of a description
+
+export interface FilenameAlt {
+  src: string;
+  alt: string;
+}
+
+export interface AltTextAudit {
+  total: number;
+  missing: string[];
+  // alt="" marks an image as decorative, which is only right for images without content
+  empty: string[];
+  filenameLike: FilenameAlt[];
+}
+
+// Failure messages list at most this many images
+const LISTED_IMAGES = 3;
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|gif|webp|avif|svg|bmp|tiff?|heic)$/i;
+// Default names from cameras, phones and screenshot tools: IMG_0042, DSC01234, PXL_2024...
+const CAMERA_NAME = /^(img|dsc|dscn|dcim|pxl|photo|image|screenshot|screen shot)[\s_-]*\d/i;
+
+function fileName(src: string): string {
+  const path = src.split(/[?#]/)[0];
+  try {
+    return decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)).toLowerCase();
+  } catch {
+    return path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+  }
+}
+
+function isFilenameLike(alt: string, src: string): boolean {
+  const name = fileName(src);
+  const lower = alt.toLowerCase();
+  return IMAGE_EXTENSION.test(alt)
+    || CAMERA_NAME.test(alt)
+    || (name !== '' && (lower === name || lower === name.replace(IMAGE_EXTENSION, '')));
+}
+
+export function auditAltText(page: PageData): AltTextAudit {
+  const images = page.images
+    .filter((image) => image.src)
+    .map((image) => ({ ...image, url: resolveUrl(image.src, page.url) ?? image.src }));
+
+  return {
+    total: images.length,
+    missing: images.filter((image) => image.alt === null).map((image) => image.url),
+    empty: images.filter((image) => image.alt === '').map((image) => image.url),
+    filenameLike: images
+      .filter((image) => image.alt && isFilenameLike(image.alt, image.src))
+      .map((image) => ({ src: image.url, alt: image.alt }))
+  };
+}
+
+export const ALT_TEXT_RULES: SeoRule[] = [
+  {
+    id: 'images-alt-filename',
+    category: 'images',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} images use a file name as alt text: {examples}',
+    recommendation: { text: '🖼️ Replace file-name alt text with a short description of what the image shows', priority: 'Medium' },
+    check: ({ altText }) => {
+      if (!altText?.total) return null;
+      const examples = altText.filenameLike.slice(0, LISTED_IMAGES).map((image) => `"${image.alt}"`);
+      return { passed: altText.filenameLike.length === 0, data: { count: altText.filenameLike.length, examples: examples.join(', ') } };
+    }
+  },
+  {
+    id: 'images-alt-empty',
+    category: 'images',
+    severity: 'info',
+    weight: 0,
+    message: '{count} images have an empty alt and are treated as decorative: {urls}',
+    check: ({ altText }) => {
+      if (!altText?.total) return null;
+      return { passed: altText.empty.length === 0, data: { count: altText.empty.length, urls: altText.empty.slice(0, LISTED_IMAGES).join(', ') } };
+    }
+  }
+];
@@ -0,0 +1,158 @@
+import { auditAltText } from './alt-text';
+import { readValidators, writeCachedAnalysis } from './cache';
+import { auditContent } from './content';
+import { auditCrawlability } from './crawlability';
+import { fingerprintPage } from './duplicates';
+import { fetchPage, userAgentFor } from './fetcher';
+import { auditHeadings } from './headings';
+import { auditHreflang } from './hreflang';
+import { auditIndexability } from './indexability';
+import { getAnalysis, getAnalysisPage, recordAnalysis, withoutHtml } from './history';
+import { auditLinks } from './links';
+import { reviewPage } from './llm-review';
+import { parsePage } from './parser';
+import { auditPerformance } from './performance';
+import { calculateSeoScore, evaluateRules, findSeoIssues, generateRecommendations } from './rules';
+import { saveSnapshot } from './snapshots';
+import { auditSocial } from './social';
+import { auditStructuredData } from './structured-data';
+import { normalizeUrl } from './urls';
+import type { StoredAnalysis } from './history';
+import type { AnalysisMode } from './llm-review';
+import type { Bindings, StoredPage } from './types';
+
+export interface AnalyzeOptions {
+  // Link checks and the share image probe cost subrequests per target, so crawls turn them off
+  checkResources?: boolean;
+  targetKeyword?: string;
+  secondaryKeywords?: string[];
+  // rules: deterministic checks only (default); llm: the model scores the page;
+  // hybrid: rule results plus page-specific LLM recommendations
+  mode?: AnalysisMode;
+  // Project that owns the stored run; null or absent for unscoped (admin) runs
+  projectId?: number | null;
+  // Fetch unconditionally and re-analyze even if the page reports it hasn't changed
+  refresh?: boolean;
+}
+
+export interface AnalysisResult {
+  analysisId: number;
+  pageData: StoredPage;
+  analysis: StoredAnalysis;
+  // The page answered 304 and the previous run was returned without re-analysis
+  notModified: boolean;
+}
+
+async function storedResult(env: Bindings, analysisId: number): Promise<AnalysisResult | null> {
+  const [record, pageData] = await Promise.all([getAnalysis(env, analysisId), getAnalysisPage(env, analysisId)]);
+  if (!record?.analysis || !pageData) return null;
+  return { analysisId, pageData, analysis: record.analysis, notModified: true };
+}
+
+// SEO Analysis Function (replaces Workflow)
+export async function analyzeSeoMultiStep(url: string, env: Bindings, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  // Step 1: Scrape the URL, conditionally when an earlier run left validators behind
+  const validators = options.refresh ? null : await readValidators(env, url, options);
+  let fetched = await fetchPage(url, env, validators);
+
+  if (fetched.meta.status === 304) {
+    const previous = await storedResult(env, validators.analysisId);
+    if (previous) {
+      await writeCachedAnalysis(env, url, options, previous, validators);
+      return previous;
+    }
+    // The earlier run is gone, so the page has to be analyzed again after all
+    fetched = await fetchPage(url, env);
+  }
+
+  const { html, meta: fetchMeta } = fetched;
+  await saveSnapshot(env, fetchMeta.contentHash, html);
+
+  const pageData = await parsePage(html, fetchMeta.finalUrl);
+  const userAgent = userAgentFor(env);
+  const crawlability = await auditCrawlability(pageData.url, env);
+  const indexability = await auditIndexability(pageData, fetchMeta, { probeHttp: options.checkResources !== false, userAgent });
+  const hreflang = options.checkResources === false
+    ? await auditHreflang(pageData, fetchMeta, env, { verify: false })
+    : await auditHreflang(pageData, fetchMeta, env, {
+      sitemaps: crawlability.sitemaps.filter((s) => s.status === 200).map((s) => s.url)
+    });
+  const headings = auditHeadings(pageData);
+  const altText = auditAltText(pageData);
+  const links = options.checkResources === false ? undefined : await auditLinks(pageData, { userAgent });
+  const structuredData = auditStructuredData(pageData);
+  const social = await auditSocial(pageData, { probeImage: options.checkResources !== false, userAgent });
+  const content = auditContent(pageData, {
+    targetKeyword: options.targetKeyword,
+    secondaryKeywords: options.secondaryKeywords
+  });
+  const performance = auditPerformance(pageData);
+  const fingerprint = await fingerprintPage(pageData, indexability);
+
+  // Step 2: Generate embeddings and query RAG
+  const queryText = `SEO analysis for: ${pageData.title ?? pageData.url}. Meta: ${pageData.metaDescription ?? 'None'}`;
+  
+  const embedding = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
+    text: queryText
+  });
+
+  const ragResults = await env.VECTORIZE.query(embedding.data[0], {
+    topK: 10,
+    returnMetadata: true
+  });
+
+  const ragContext = ragResults.matches
+    .map((m) => m.metadata?.text || '')
+    .filter(Boolean)
+    .join('\n\n');
+  const sources = [...new Set(ragResults.matches.map((m) => String(m.metadata?.source || '')).filter(Boolean))];
+
+  // Step 3: Rule-based analysis (reliable and deterministic)
+  const mode = options.mode ?? 'rules';
+  const rules = evaluateRules({
+    page: pageData, indexability, headings, altText, hreflang, crawlability, links, structuredData, social, content, performance
+  });
+
+  // Step 4: LLM review. In llm mode its score and issues replace the rules'; a failed
+  // review leaves the score empty rather than guessing one. The rule results are kept in
+  // every mode, so history, diffs and watches still see which rules fail.
+  const llm = await reviewPage(env, mode, pageData, content, rules, ragContext);
+  const ruleDerived = mode !== 'llm';
+
+  const analysis = {
+    mode,
+    score: ruleDerived ? calculateSeoScore(rules) : llm.score,
+    issues: ruleDerived ? findSeoIssues(rules) : llm.issues,
+    recommendations: [...(ruleDerived ? generateRecommendations(rules) : []), ...llm.recommendations],
+    rules,
+    llmStatus: llm.status,
+    llm: { model: llm.model, attempts: llm.attempts, errors: llm.errors },
+    fetch: fetchMeta,
+    indexability,
+    headings,
+    altText,
+    hreflang,
+    crawlability,
+    links,
+    structuredData,
+    social,
+    content,
+    performance,
+    fingerprint,
+    ragContext: ragContext.substring(0, 500), // Include some RAG context for display
+    sources
+  };
+
+  // Step 5: Save to D1 under the normalized URL, without the HTML
+  const analysisId = await recordAnalysis(env, normalizeUrl(url), pageData, analysis, options.projectId ?? null);
+  const result: AnalysisResult = { analysisId, pageData: withoutHtml(pageData), analysis, notModified: false };
+
+  // Step 6: Cache results, keeping the validators for the next conditional fetch
+  await writeCachedAnalysis(env, url, options, result, {
+    analysisId,
+    etag: fetchMeta.etag,
+    lastModified: fetchMeta.lastModified
+  });
+
+  return result;
+}
@@ -0,0 +1,309 @@
+import { analyzeSeoMultiStep } from './analyzer';
+import { appendMessages, buildChatMessages, CHAT_MODEL, loadConversation } from './chat';
+import { diffAnalyses, getAnalysis, getLatestAnalysis, getUrlHistory, normalizeHistoryQuery } from './history';
+import { isHttpUrl } from './urls';
+import type { AnalysisRecord } from './history';
+import type { Bindings } from './types';
+
+// Analysis grounding and tool calling for the chat assistant
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: unknown;
+}
+
+export interface AssistantReply {
+  response: string;
+  toolCalls: ToolCall[];
+  usage: Record<string, number> | null;
+}
+
+export interface ChatRequest {
+  message: string;
+  sessionId: string;
+  analysisId?: number;
+  url?: string;
+  // Project of the caller; analyses and tools are scoped to it
+  projectId?: number | null;
+}
+
+// Everything needed to ask the model, shared by the JSON and streaming chat routes
+export interface PreparedChat {
+  sessionId: string;
+  projectId: number | null;
+  message: string;
+  messages: Record<string, unknown>[];
+  sources: string[];
+  grounding: AnalysisRecord | null;
+}
+
+const MAX_TOOL_ROUNDS = 3;
+const MAX_LISTED_ISSUES = 25;
+const MAX_LISTED_HEADINGS = 20;
+
+export const CHAT_TOOLS = [
+  {
+    type: 'function',
+    function: {
+      name: 'analyze_url',
+      description: 'Run a fresh SEO analysis of a web page and return its score, issues and recommendations.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'Absolute http(s) URL to analyze' },
+          targetKeyword: { type: 'string', description: 'Optional keyword the page should rank for' }
+        },
+        required: ['url']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_analysis',
+      description: 'Load a stored SEO analysis by its id.',
+      parameters: {
+        type: 'object',
+        properties: { analysisId: { type: 'number', description: 'Analysis id' } },
+        required: ['analysisId']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_url_history',
+      description: 'List past analyses of a URL with their scores, newest first, plus the score trend.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'Absolute URL that was analyzed' },
+          limit: { type: 'number', description: 'How many runs to return (default 10)' }
+        },
+        required: ['url']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'compare_analyses',
+      description: 'Compare two stored analyses: score change, resolved and new issues, and changed title, meta description and headings.',
+      parameters: {
+        type: 'object',
+        properties: {
+          baseId: { type: 'number', description: 'Id of the earlier analysis' },
+          targetId: { type: 'number', description: 'Id of the later analysis' }
+        },
+        required: ['baseId', 'targetId']
+      }
+    }
+  }
+];
+
+// Compact view of an analysis that fits in a prompt
+export function analysisBrief(record: AnalysisRecord) {
+  const rules = record.analysis?.rules ?? [];
+  return {
+    analysisId: record.id,
+    url: record.url,
+    analyzedAt: record.createdAt,
+    score: record.score,
+    title: record.title,
+    metaDescription: record.metaDescription,
+    headings: record.headings.slice(0, MAX_LISTED_HEADINGS).map((h) => `h${h.level}: ${h.text}`),
+    rules: {
+      passed: rules.filter((r) => r.status === 'pass').length,
+      failed: rules.filter((r) => r.status === 'fail').length,
+      skipped: rules.filter((r) => r.status === 'skipped').length
+    },
+    issues: record.issues.slice(0, MAX_LISTED_ISSUES).map((i) => ({
+      ruleId: i.ruleId,
+      severity: i.severity,
+      scoreImpact: i.weight,
+      message: i.message
+    })),
+    recommendations: record.recommendations.map((r) => `[${r.priority}] ${r.text}`)
+  };
+}
+
+export function parseChatRequest(body: Record<string, unknown>): ChatRequest | { error: string } {
+  const { message, sessionId, analysisId, url } = body;
+
+  if (typeof message !== 'string' || !message.trim()) {
+    return { error: 'Message is required' };
+  }
+  if (sessionId !== undefined && typeof sessionId !== 'string') {
+    return { error: 'sessionId must be a string' };
+  }
+  if (analysisId !== undefined && !Number.isInteger(analysisId)) {
+    return { error: 'analysisId must be an integer' };
+  }
+  if (url !== undefined && (typeof url !== 'string' || !isHttpUrl(url))) {
+    return { error: 'url must be a valid http(s) URL' };
+  }
+
+  return {
+    message,
+    sessionId: (sessionId as string) || crypto.randomUUID(),
+    analysisId: analysisId as number | undefined,
+    url: url as string | undefined
+  };
+}
+
+// The analysis a chat turn is about: an explicit id, else the latest run for a URL
+export async function resolveGrounding(env: Bindings, analysisId: number | null, url: string | null, projectId: number | null = null) {
+  if (analysisId) return getAnalysis(env, analysisId, projectId);
+  if (url) return getLatestAnalysis(env, url, projectId);
+  return null;
+}
+
+export function groundingPrompt(record: AnalysisRecord): string {
+  return `The user is asking about this SEO analysis. The score starts at 100 and each failed rule subtracts its scoreImpact. Explain scores and issues from this data:\n${JSON.stringify(analysisBrief(record))}`;
+}
+
+// Retrieve knowledge, replay the conversation and resolve the grounding analysis.
+// Returns null when an explicit analysisId doesn't exist.
+export async function prepareChat(env: Bindings, request: ChatRequest): Promise<PreparedChat | null> {
+  // Get relevant SEO knowledge from Vectorize
+  const queryEmbedding = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
+    text: request.message
+  });
+
+  const ragResults = await env.VECTORIZE.query(queryEmbedding.data[0], {
+    topK: 5,
+    returnMetadata: true
+  });
+
+  const ragContext = ragResults.matches
+    .map((m) => m.metadata?.text || '')
+    .filter(Boolean)
+    .join('\n\n');
+  const sources = ragResults.matches.map((m) => String(m.metadata?.source || 'Unknown'));
+
+  // Replay recent turns; older ones arrive as a summary
+  const conversation = await loadConversation(env, request.sessionId);
+
+  // Ground the answer in the requested analysis, or the one this session was already about
+  const explicit = request.analysisId !== undefined || request.url !== undefined;
+  const grounding = await resolveGrounding(
+    env,
+    request.analysisId ?? (explicit ? null : conversation.analysisId),
+    request.url ?? null,
+    request.projectId ?? null
+  );
+  if (request.analysisId !== undefined && !grounding) return null;
+
+  return {
+    sessionId: request.sessionId,
+    projectId: request.projectId ?? null,
+    message: request.message,
+    messages: buildChatMessages(conversation, ragContext, request.message, grounding ? groundingPrompt(grounding) : null),
+    sources,
+    grounding
+  };
+}
+
+// Store the user turn, any tool calls with their results, and the reply
+export async function recordChatTurn(
+  env: Bindings,
+  chat: PreparedChat,
+  reply: AssistantReply,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  await appendMessages(env, chat.sessionId, [
+    { role: 'user', content: chat.message },
+    ...reply.toolCalls.map((call) => ({
+      role: 'tool' as const,
+      content: JSON.stringify(call.result),
+      metadata: { name: call.name, arguments: call.arguments }
+    })),
+    { role: 'assistant', content: reply.response, metadata: { sources: chat.sources, ...metadata } }
+  ], chat.grounding?.id ?? null, chat.projectId);
+}
+
+function toArguments(value: unknown): Record<string, unknown> {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+// Tools act on behalf of the caller's project, so they only see and create its analyses
+export async function executeTool(
+  env: Bindings,
+  name: string,
+  args: Record<string, unknown>,
+  projectId: number | null = null
+): Promise<unknown> {
+  switch (name) {
+    case 'analyze_url': {
+      const url = String(args.url ?? '');
+      if (!isHttpUrl(url)) return { error: 'A valid http(s) URL is required' };
+      const targetKeyword = typeof args.targetKeyword === 'string' ? args.targetKeyword : undefined;
+      const { analysisId } = await analyzeSeoMultiStep(url, env, { checkResources: false, targetKeyword, projectId });
+      return analysisBrief(await getAnalysis(env, analysisId));
+    }
+    case 'get_analysis': {
+      const record = await getAnalysis(env, Number(args.analysisId), projectId);
+      return record ? analysisBrief(record) : { error: 'Analysis not found' };
+    }
+    case 'get_url_history': {
+      const query = normalizeHistoryQuery({ limit: String(args.limit ?? 10) });
+      if ('error' in query) return query;
+      return getUrlHistory(env, String(args.url ?? ''), query, projectId);
+    }
+    case 'compare_analyses': {
+      const [base, target] = await Promise.all([
+        getAnalysis(env, Number(args.baseId), projectId),
+        getAnalysis(env, Number(args.targetId), projectId)
+      ]);
+      return base && target ? diffAnalyses(base, target) : { error: 'Analysis not found' };
+    }
+    default:
+      return { error: `Unknown tool: ${name}` };
+  }
+}
+
+// Let the model call tools for a few rounds, then return its final answer
+export async function runAssistant(
+  env: Bindings,
+  messages: Record<string, unknown>[],
+  projectId: number | null = null
+): Promise<AssistantReply> {
+  const toolCalls: ToolCall[] = [];
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    // The last round withholds the tools so the model has to answer
+    const response = await env.AI.run(CHAT_MODEL, {
+      messages,
+      ...(round < MAX_TOOL_ROUNDS ? { tools: CHAT_TOOLS } : {}),
+      max_tokens: 1024
+    });
+
+    const calls: { name: string; arguments: unknown }[] = response.tool_calls ?? [];
+    if (!calls.length) {
+      return { response: response.response ?? '', toolCalls, usage: response.usage ?? null };
+    }
+
+    messages.push({ role: 'assistant', content: '', tool_calls: calls });
+    for (const call of calls) {
+      const args = toArguments(call.arguments);
+      let result: unknown;
+      try {
+        result = await executeTool(env, call.name, args, projectId);
+      } catch (error) {
+        result = { error: error instanceof Error ? error.message : 'Tool failed' };
+      }
+      toolCalls.push({ name: call.name, arguments: args, result });
+      messages.push({ role: 'tool', name: call.name, content: JSON.stringify(result) });
+    }
+  }
+
+  return { response: '', toolCalls, usage: null };
+}
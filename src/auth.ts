@@ -0,0 +1,230 @@
+import { createMiddleware } from 'hono/factory';
+import { sha256Hex } from './hash';
+import type { Context } from 'hono';
+import type { Bindings } from './types';
+
+// API keys and projects. Every key belongs to a project and everything created with it
+// (analyses, crawls, batches, watches, chat sessions) is scoped to that project. The
+// ADMIN_API_KEY secret is the admin credential: it sees every project and manages keys.
+
+export type Role = 'admin' | 'member';
+
+export interface AuthContext {
+  role: Role;
+  // null for the admin key, which is not limited to one project
+  projectId: number | null;
+  keyId: number | null;
+  // Requests per minute on AI-heavy routes; null means unlimited
+  rateLimit: number | null;
+}
+
+export type AppEnv = { Bindings: Bindings; Variables: { auth: AuthContext } };
+
+export interface KeyInput {
+  name: string;
+  rateLimit: number | null;
+}
+
+interface ProjectRow {
+  id: number;
+  name: string;
+  created_at: string;
+  key_count: number;
+}
+
+interface ApiKeyRow {
+  id: number;
+  project_id: number;
+  name: string;
+  prefix: string;
+  rate_limit: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+const KEY_PREFIX = 'seo_';
+const DEFAULT_RATE_LIMIT = 20;
+const MAX_RATE_LIMIT = 10000;
+const RATE_WINDOW_SECONDS = 60;
+const MAX_NAME_CHARS = 100;
+
+// Routes anyone can call without a key
+const PUBLIC_PATHS = ['/api/health'];
+
+function toProject(row: ProjectRow) {
+  return { id: row.id, name: row.name, keys: row.key_count, createdAt: row.created_at };
+}
+
+function toApiKey(row: ApiKeyRow) {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    prefix: row.prefix,
+    rateLimit: row.rate_limit,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at
+  };
+}
+
+function nameOf(input: Record<string, unknown>): string | { error: string } {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) return { error: 'name is required' };
+  if (name.length > MAX_NAME_CHARS) return { error: `name must be at most ${MAX_NAME_CHARS} characters` };
+  return name;
+}
+
+export async function createProject(env: Bindings, input: Record<string, unknown>) {
+  const name = nameOf(input);
+  if (typeof name !== 'string') return name;
+
+  const created = await env.DB.prepare('INSERT INTO projects (name) VALUES (?)').bind(name).run();
+  return getProject(env, created.meta.last_row_id);
+}
+
+export async function getProject(env: Bindings, id: number) {
+  const row = await env.DB.prepare(
+    `SELECT p.id, p.name, p.created_at,
+       (SELECT COUNT(*) FROM api_keys k WHERE k.project_id = p.id AND k.revoked_at IS NULL) AS key_count
+     FROM projects p WHERE p.id = ?`
+  ).bind(id).first<ProjectRow>();
+  return row ? toProject(row) : null;
+}
+
+export async function listProjects(env: Bindings) {
+  const { results } = await env.DB.prepare(
+    `SELECT p.id, p.name, p.created_at,
+       (SELECT COUNT(*) FROM api_keys k WHERE k.project_id = p.id AND k.revoked_at IS NULL) AS key_count
+     FROM projects p ORDER BY p.id`
+  ).all<ProjectRow>();
+  return results.map(toProject);
+}
+
+export function normalizeKeyInput(input: Record<string, unknown>): KeyInput | { error: string } {
+  const name = nameOf({ name: input.name ?? 'default' });
+  if (typeof name !== 'string') return name;
+
+  const { rateLimit } = input;
+  if (rateLimit !== undefined && rateLimit !== null
+    && (!Number.isInteger(rateLimit) || (rateLimit as number) < 1 || (rateLimit as number) > MAX_RATE_LIMIT)) {
+    return { error: `rateLimit must be an integer from 1 to ${MAX_RATE_LIMIT}, or null for the default` };
+  }
+  return { name, rateLimit: (rateLimit as number) ?? null };
+}
+
+// Issue a key for a project. Only its hash is stored, so the plaintext is returned once.
+export async function createApiKey(env: Bindings, projectId: number, input: KeyInput) {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const key = KEY_PREFIX + [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+  const prefix = key.slice(0, KEY_PREFIX.length + 8);
+
+  const created = await env.DB.prepare(
+    'INSERT INTO api_keys (project_id, name, key_hash, prefix, rate_limit) VALUES (?, ?, ?, ?, ?)'
+  ).bind(projectId, input.name, await sha256Hex(key), prefix, input.rateLimit).run();
+
+  const row = await env.DB.prepare('SELECT * FROM api_keys WHERE id = ?').bind(created.meta.last_row_id).first<ApiKeyRow>();
+  return { ...toApiKey(row), key };
+}
+
+export async function listApiKeys(env: Bindings, projectId: number) {
+  const { results } = await env.DB.prepare(
+    'SELECT * FROM api_keys WHERE project_id = ? ORDER BY id'
+  ).bind(projectId).all<ApiKeyRow>();
+  return results.map(toApiKey);
+}
+
+// Revoked keys stop authenticating immediately; the row stays for the audit trail
+export async function revokeApiKey(env: Bindings, id: number): Promise<boolean> {
+  const revoked = await env.DB.prepare(
+    'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL'
+  ).bind(id).run();
+  return (revoked.meta.changes ?? 0) > 0;
+}
+
+function presentedKey(c: Context<AppEnv>): string | null {
+  const authorization = c.req.header('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  return (bearer?.[1] ?? c.req.header('x-api-key') ?? '').trim() || null;
+}
+
+function defaultRateLimit(env: Bindings): number {
+  const n = Number(env.RATE_LIMIT_PER_MINUTE);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_RATE_LIMIT;
+}
+
+// Resolve the caller from `Authorization: Bearer <key>` or `X-API-Key`
+export const authenticate = createMiddleware<AppEnv>(async (c, next) => {
+  if (PUBLIC_PATHS.includes(c.req.path)) return next();
+
+  const key = presentedKey(c);
+  if (!key) {
+    return c.json({ error: 'An API key is required' }, 401);
+  }
+
+  // Hashes are compared so the admin check doesn't leak the secret through timing
+  const hash = await sha256Hex(key);
+  if (c.env.ADMIN_API_KEY && hash === await sha256Hex(c.env.ADMIN_API_KEY)) {
+    c.set('auth', { role: 'admin', projectId: null, keyId: null, rateLimit: null });
+    return next();
+  }
+
+  const row = await c.env.DB.prepare(
+    'SELECT id, project_id, rate_limit FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL'
+  ).bind(hash).first<{ id: number; project_id: number; rate_limit: number | null }>();
+  if (!row) {
+    return c.json({ error: 'Invalid API key' }, 401);
+  }
+
+  c.set('auth', {
+    role: 'member',
+    projectId: row.project_id,
+    keyId: row.id,
+    rateLimit: row.rate_limit ?? defaultRateLimit(c.env)
+  });
+  c.executionCtx.waitUntil(
+    c.env.DB.prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?').bind(row.id).run()
+  );
+  await next();
+});
+
+export const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+  if (c.get('auth').role !== 'admin') {
+    return c.json({ error: 'This endpoint requires the admin API key' }, 403);
+  }
+  await next();
+});
+
+// Fixed one-minute window per key, counted in KV. KV is eventually consistent, so
+// requests spread across locations can overshoot the limit slightly.
+export const rateLimit = createMiddleware<AppEnv>(async (c, next) => {
+  const { keyId, rateLimit: limit } = c.get('auth');
+  if (limit === null) return next();
+
+  const now = Math.floor(Date.now() / 1000);
+  const window = Math.floor(now / RATE_WINDOW_SECONDS);
+  const resetAt = (window + 1) * RATE_WINDOW_SECONDS;
+  const counterKey = `ratelimit:${keyId}:${window}`;
+  const used = Number(await c.env.CACHE.get(counterKey)) || 0;
+
+  c.header('X-RateLimit-Limit', String(limit));
+  c.header('X-RateLimit-Reset', String(resetAt));
+  if (used >= limit) {
+    c.header('X-RateLimit-Remaining', '0');
+    c.header('Retry-After', String(resetAt - now));
+    return c.json({ error: `Rate limit of ${limit} requests per minute exceeded`, retryAfter: resetAt - now }, 429);
+  }
+
+  // KV's minimum TTL is 60 seconds, which also covers the rest of the window
+  await c.env.CACHE.put(counterKey, String(used + 1), { expirationTtl: RATE_WINDOW_SECONDS * 2 });
+  c.header('X-RateLimit-Remaining', String(limit - used - 1));
+  await next();
+});
+
+// Allowed browser origins from CORS_ORIGINS (comma-separated); unset or "*" allows any origin
+export function corsOrigin(origin: string, c: Context): string | null {
+  const allowed = String(c.env.CORS_ORIGINS ?? '*').split(',').map((o) => o.trim()).filter(Boolean);
+  if (!allowed.length || allowed.includes('*')) return '*';
+  return allowed.includes(origin) ? origin : null;
+}
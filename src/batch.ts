@@ -0,0 +1,319 @@
+import { analyzeSeoMultiStep } from './analyzer';
+import { mapWithConcurrency } from './async';
+import { readCachedAnalysis } from './cache';
+import { assertPublicUrl } from './fetcher';
+import { ANALYSIS_MODES } from './llm-review';
+import { stripHash } from './urls';
+import { clampInt } from './validation';
+import type { AnalyzeOptions } from './analyzer';
+import type { AnalysisMode } from './llm-review';
+import type { Bindings } from './types';
+
+// Batch analysis of a fixed URL list, processed in leased chunks like crawls so a
+// batch survives across invocations and can be cancelled and resumed
+
+export interface BatchOptions {
+  mode: AnalysisMode;
+  targetKeyword?: string;
+  secondaryKeywords?: string[];
+  checkResources: boolean;
+  // Ignore cached results and re-analyze every URL
+  refresh: boolean;
+  // URLs analyzed in parallel within a chunk
+  concurrency: number;
+}
+
+export interface RejectedUrl {
+  url: string;
+  reason: string;
+}
+
+interface BatchRow {
+  id: number;
+  options: string;
+  status: string;
+  project_id: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface BatchItemRow {
+  id: number;
+  url: string;
+}
+
+const MAX_BATCH_URLS = 500;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 6;
+const CHUNK_ROUNDS = 2;
+const LEASE_SECONDS = 120;
+
+export function normalizeBatchOptions(input: Record<string, unknown>): BatchOptions | { error: string } {
+  const { mode, targetKeyword } = input;
+  // Form fields and query strings carry secondary keywords as a comma-separated list
+  const secondaryKeywords = typeof input.secondaryKeywords === 'string'
+    ? input.secondaryKeywords.split(',').map((k) => k.trim()).filter(Boolean)
+    : input.secondaryKeywords;
+
+  if (mode !== undefined && !ANALYSIS_MODES.includes(mode as AnalysisMode)) {
+    return { error: `mode must be one of: ${ANALYSIS_MODES.join(', ')}` };
+  }
+  if (targetKeyword !== undefined && typeof targetKeyword !== 'string') {
+    return { error: 'targetKeyword must be a string' };
+  }
+  if (secondaryKeywords !== undefined
+    && (!Array.isArray(secondaryKeywords) || secondaryKeywords.some((k) => typeof k !== 'string'))) {
+    return { error: 'secondaryKeywords must be an array of strings' };
+  }
+
+  return {
+    mode: (mode as AnalysisMode) ?? 'rules',
+    targetKeyword: (targetKeyword as string) || undefined,
+    secondaryKeywords: (secondaryKeywords as string[])?.length ? (secondaryKeywords as string[]) : undefined,
+    checkResources: input.checkResources === true || input.checkResources === 'true',
+    refresh: input.refresh === true || input.refresh === 'true',
+    concurrency: clampInt(input.concurrency, DEFAULT_CONCURRENCY, 1, MAX_CONCURRENCY)
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// URLs from a CSV export: the "url" column when there is a header row, else the first column
+export function parseCsvUrls(csv: string): string[] {
+  const rows = csv.split(/\r?\n/).filter((line) => line.trim()).map(splitCsvLine);
+  if (!rows.length) return [];
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const column = header.findIndex((cell) => cell === 'url' || cell === 'urls' || cell === 'address');
+  if (column !== -1) return rows.slice(1).map((row) => row[column] ?? '');
+  return rows.map((row) => row[0]);
+}
+
+// De-duplicate and validate submitted URLs; invalid ones are reported, not queued
+export function prepareBatchUrls(raw: string[]): { urls: string[]; rejected: RejectedUrl[] } | { error: string } {
+  const urls: string[] = [];
+  const rejected: RejectedUrl[] = [];
+  const seen = new Set<string>();
+
+  for (const value of raw) {
+    const url = String(value ?? '').trim();
+    if (!url) continue;
+    try {
+      assertPublicUrl(url);
+    } catch (error) {
+      rejected.push({ url, reason: error instanceof Error ? error.message : 'Invalid URL' });
+      continue;
+    }
+    const normalized = stripHash(url);
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+    urls.push(normalized);
+  }
+
+  if (!urls.length) return { error: 'No valid URLs to analyze' };
+  if (urls.length > MAX_BATCH_URLS) return { error: `A batch can contain at most ${MAX_BATCH_URLS} URLs` };
+  return { urls, rejected };
+}
+
+export async function createBatch(
+  urls: string[],
+  options: BatchOptions,
+  env: Bindings,
+  projectId: number | null = null
+): Promise<number> {
+  const created = await env.DB.prepare(
+    'INSERT INTO batches (options, project_id) VALUES (?, ?)'
+  ).bind(JSON.stringify(options), projectId).run();
+  const batchId = created.meta.last_row_id;
+
+  await env.DB.batch(urls.map((url) => env.DB.prepare(
+    'INSERT OR IGNORE INTO batch_items (batch_id, url) VALUES (?, ?)'
+  ).bind(batchId, url)));
+
+  return batchId;
+}
+
+function analyzeOptions(options: BatchOptions, projectId: number | null): AnalyzeOptions {
+  return {
+    mode: options.mode,
+    targetKeyword: options.targetKeyword,
+    secondaryKeywords: options.secondaryKeywords,
+    checkResources: options.checkResources,
+    projectId,
+    refresh: options.refresh
+  };
+}
+
+// Analyze one URL, reusing a cached result when there is one. Failures are
+// recorded on the item so one bad URL doesn't stop the batch.
+async function processItem(env: Bindings, item: BatchItemRow, options: AnalyzeOptions): Promise<void> {
+  try {
+    const cached = options.refresh ? null : await readCachedAnalysis(env, item.url, options);
+    const result = cached ?? await analyzeSeoMultiStep(item.url, env, options);
+
+    await env.DB.prepare(
+      `UPDATE batch_items SET status = 'done', analysis_id = ?, score = ?, cached = ?, error = NULL, analyzed_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'running'`
+    ).bind(result.analysisId ?? null, result.analysis?.score ?? null, cached ? 1 : 0, item.id).run();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await env.DB.prepare(
+      `UPDATE batch_items SET status = 'failed', error = ?, analyzed_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'running'`
+    ).bind(errorMessage, item.id).run();
+  }
+}
+
+// Analyze the next chunk of pending URLs. Returns false when another invocation
+// holds the lease or the batch is no longer running.
+export async function processBatchChunk(batchId: number, env: Bindings): Promise<boolean> {
+  const lease = await env.DB.prepare(
+    `UPDATE batches SET locked_until = datetime('now', ?)
+     WHERE id = ? AND status = 'running' AND (locked_until IS NULL OR locked_until < datetime('now'))`
+  ).bind(`+${LEASE_SECONDS} seconds`, batchId).run();
+  if (!lease.meta.changes) return false;
+
+  const batch = await env.DB.prepare('SELECT * FROM batches WHERE id = ?').bind(batchId).first<BatchRow>();
+  const options: BatchOptions = JSON.parse(batch.options);
+
+  // Items left 'running' by an invocation that died are picked up again once the lease expires
+  const { results: items } = await env.DB.prepare(
+    `SELECT id, url FROM batch_items
+     WHERE batch_id = ? AND status IN ('pending', 'running') ORDER BY id LIMIT ?`
+  ).bind(batchId, options.concurrency * CHUNK_ROUNDS).all<BatchItemRow>();
+
+  if (items.length) {
+    await env.DB.batch(items.map((item) => env.DB.prepare(
+      `UPDATE batch_items SET status = 'running' WHERE id = ?`
+    ).bind(item.id)));
+    await mapWithConcurrency(items, options.concurrency, (item) => processItem(env, item, analyzeOptions(options, batch.project_id)));
+  }
+
+  const remaining = await env.DB.prepare(
+    `SELECT COUNT(*) AS count FROM batch_items WHERE batch_id = ? AND status IN ('pending', 'running')`
+  ).bind(batchId).first<number>('count');
+
+  // A cancel that landed mid-chunk keeps the batch cancelled
+  await env.DB.prepare(
+    `UPDATE batches SET locked_until = NULL,
+       status = CASE WHEN ? = 0 AND status = 'running' THEN 'completed' ELSE status END,
+       completed_at = CASE WHEN ? = 0 AND status = 'running' THEN CURRENT_TIMESTAMP ELSE completed_at END
+     WHERE id = ?`
+  ).bind(remaining, remaining, batchId).run();
+
+  return true;
+}
+
+// Advance every running batch by one chunk (used by the cron trigger)
+export async function advanceBatches(env: Bindings): Promise<void> {
+  const { results } = await env.DB.prepare(
+    `SELECT id FROM batches WHERE status = 'running' ORDER BY created_at LIMIT 5`
+  ).all<{ id: number }>();
+
+  for (const { id } of results) {
+    await processBatchChunk(id, env);
+  }
+}
+
+// Stop a running batch: queued URLs are marked cancelled, in-flight ones finish
+export async function cancelBatch(batchId: number, env: Bindings): Promise<boolean> {
+  const [updated] = await env.DB.batch([
+    env.DB.prepare(
+      `UPDATE batches SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'running'`
+    ).bind(batchId),
+    env.DB.prepare(
+      `UPDATE batch_items SET status = 'cancelled' WHERE batch_id = ? AND status = 'pending'`
+    ).bind(batchId)
+  ]);
+  return (updated.meta.changes ?? 0) > 0;
+}
+
+// Put a cancelled batch back in the queue; optionally retry its failed URLs too
+export async function resumeBatch(batchId: number, env: Bindings, retryFailed = false): Promise<void> {
+  const requeued = retryFailed ? `'cancelled', 'failed'` : `'cancelled'`;
+  await env.DB.batch([
+    env.DB.prepare(
+      `UPDATE batch_items SET status = 'pending', error = NULL WHERE batch_id = ? AND status IN (${requeued})`
+    ).bind(batchId),
+    env.DB.prepare(
+      `UPDATE batches SET status = 'running', completed_at = NULL
+       WHERE id = ? AND EXISTS (SELECT 1 FROM batch_items WHERE batch_id = ? AND status = 'pending')`
+    ).bind(batchId, batchId)
+  ]);
+}
+
+// Scoped to the caller's project; null (the admin key) sees every batch
+export async function getBatch(batchId: number, env: Bindings, projectId: number | null = null) {
+  const batch = await env.DB.prepare(
+    'SELECT * FROM batches WHERE id = ?1 AND (?2 IS NULL OR project_id = ?2)'
+  ).bind(batchId, projectId).first<BatchRow>();
+  if (!batch) return null;
+
+  const { results: items } = await env.DB.prepare(
+    `SELECT url, status, analysis_id, score, cached, error, analyzed_at
+     FROM batch_items WHERE batch_id = ? ORDER BY id`
+  ).bind(batchId).all<{
+    url: string;
+    status: string;
+    analysis_id: number | null;
+    score: number | null;
+    cached: number;
+    error: string | null;
+    analyzed_at: string | null;
+  }>();
+
+  const countOf = (status: string) => items.filter((i) => i.status === status).length;
+  const scored = items.filter((i) => i.status === 'done' && i.score !== null);
+
+  return {
+    id: batch.id,
+    status: batch.status,
+    options: JSON.parse(batch.options) as BatchOptions,
+    createdAt: batch.created_at,
+    completedAt: batch.completed_at,
+    progress: {
+      total: items.length,
+      pending: countOf('pending') + countOf('running'),
+      done: countOf('done'),
+      failed: countOf('failed'),
+      cancelled: countOf('cancelled'),
+      cached: items.filter((i) => i.cached).length
+    },
+    averageScore: scored.length ? Math.round(scored.reduce((sum, i) => sum + i.score, 0) / scored.length) : null,
+    items: items.map((i) => ({
+      url: i.url,
+      status: i.status,
+      analysisId: i.analysis_id,
+      score: i.score,
+      cached: Boolean(i.cached),
+      error: i.error,
+      analyzedAt: i.analyzed_at
+    }))
+  };
+}
@@ -0,0 +1,107 @@
+import { sha256Hex } from './hash';
+import { normalizeUrl } from './urls';
+import type { AnalyzeOptions } from './analyzer';
+import type { Bindings } from './types';
+
+// Analysis cache in KV. Results are keyed by the normalized URL plus everything that
+// changes them, and expire after ANALYSIS_CACHE_TTL. The page's validators outlive the
+// result so an expired entry can be refreshed with a conditional request.
+
+export interface CachedValidators {
+  analysisId: number;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+const DEFAULT_TTL_SECONDS = 3600;
+// KV rejects shorter expirations
+const MIN_TTL_SECONDS = 60;
+const VALIDATOR_TTL_SECONDS = 30 * 24 * 3600;
+
+function urlKey(url: string): Promise<string> {
+  return sha256Hex(normalizeUrl(url));
+}
+
+// Keyword results, the analysis mode, the owning project and whether linked resources
+// were checked differ per request, so all of them are part of the key. KV keys are capped
+// at 512 bytes, so the URL and the variable options are hashed; the project stays readable
+// so invalidation can tell whose entries a key holds.
+async function keySuffix(url: string, options: AnalyzeOptions): Promise<string> {
+  const keywords = [options.targetKeyword, ...(options.secondaryKeywords ?? [])]
+    .map((keyword) => keyword?.trim().toLowerCase())
+    .filter(Boolean);
+  const project = options.projectId ? `|project:${options.projectId}` : '';
+  const mode = options.mode && options.mode !== 'rules' ? `|mode:${options.mode}` : '';
+  const resources = options.checkResources === false ? '|resources:off' : '';
+  const rest = `${mode}${resources}${keywords.length ? `|keywords:${keywords.join(',')}` : ''}`;
+  return `${await urlKey(url)}${project}${rest ? `|${await sha256Hex(rest)}` : ''}`;
+}
+
+export async function analysisCacheKey(url: string, options: AnalyzeOptions = {}): Promise<string> {
+  return `analysis:${await keySuffix(url, options)}`;
+}
+
+async function validatorsKey(url: string, options: AnalyzeOptions): Promise<string> {
+  return `validators:${await keySuffix(url, options)}`;
+}
+
+export function analysisCacheTtl(env: Bindings): number {
+  const n = Number(env.ANALYSIS_CACHE_TTL);
+  return Number.isInteger(n) && n > 0 ? Math.max(n, MIN_TTL_SECONDS) : DEFAULT_TTL_SECONDS;
+}
+
+export async function readCachedAnalysis(env: Bindings, url: string, options: AnalyzeOptions = {}) {
+  const cached = await env.CACHE.get(await analysisCacheKey(url, options));
+  return cached ? JSON.parse(cached) : null;
+}
+
+export async function readValidators(env: Bindings, url: string, options: AnalyzeOptions = {}): Promise<CachedValidators | null> {
+  const stored = await env.CACHE.get(await validatorsKey(url, options));
+  return stored ? JSON.parse(stored) : null;
+}
+
+// Cache a result, and its validators when the page sent any
+export async function writeCachedAnalysis(
+  env: Bindings,
+  url: string,
+  options: AnalyzeOptions,
+  result: unknown,
+  validators: CachedValidators
+): Promise<void> {
+  const writes = [
+    env.CACHE.put(await analysisCacheKey(url, options), JSON.stringify(result), { expirationTtl: analysisCacheTtl(env) })
+  ];
+  if (validators.etag || validators.lastModified) {
+    writes.push(env.CACHE.put(await validatorsKey(url, options), JSON.stringify(validators), { expirationTtl: VALIDATOR_TTL_SECONDS }));
+  }
+  await Promise.all(writes);
+}
+
+// Whether a key's options segment belongs to the project; null (the admin key) owns every entry
+function ownedBy(options: string, projectId: number | null): boolean {
+  if (projectId === null) return true;
+  const project = `|project:${projectId}`;
+  return options === project || options.startsWith(`${project}|`);
+}
+
+// Drop every cached result and validator for a URL, across modes and keywords. Returns
+// the number of KV entries deleted.
+export async function invalidateAnalysisCache(env: Bindings, url: string, projectId: number | null = null): Promise<number> {
+  const hashed = await urlKey(url);
+  let deleted = 0;
+
+  for (const prefix of [`analysis:${hashed}`, `validators:${hashed}`]) {
+    let cursor: string | undefined;
+    do {
+      const page = await env.CACHE.list({ prefix, cursor });
+      const names = page.keys
+        .map((key) => key.name)
+        .filter((name) => ownedBy(name.slice(prefix.length), projectId));
+      await Promise.all(names.map((name) => env.CACHE.delete(name)));
+      deleted += names.length;
+      cursor = !page.list_complete && 'cursor' in page ? page.cursor : undefined;
+    } while (cursor);
+  }
+
+  return deleted;
+}
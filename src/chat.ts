@@ -0,0 +1,245 @@
+import type { Bindings } from './types';
+
+// Chat sessions: every turn is stored, the most recent turns are replayed as
+// messages and older turns are folded into a running summary
+
+export const CHAT_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+// Tool turns record the assistant's tool calls and their results
+export type ChatRole = 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  id: number;
+  role: ChatRole;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface NewChatMessage {
+  role: ChatRole;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Conversation {
+  summary: string | null;
+  analysisId: number | null;
+  // Turns newer than the summary, oldest first
+  recent: ChatMessage[];
+}
+
+interface SessionContext {
+  summary: string | null;
+  summarizedThrough: number;
+  // Analysis the conversation is grounded in, kept for follow-up questions
+  analysisId: number | null;
+}
+
+interface ChatMessageRow {
+  id: number;
+  role: ChatRole;
+  content: string;
+  metadata: string | null;
+  created_at: string;
+}
+
+// Turns are replayed verbatim until there are too many or they exceed the token budget.
+// Then the older half is summarized, so the summary isn't rewritten on every turn.
+const MAX_RECENT_MESSAGES = 12;
+const HISTORY_TOKEN_BUDGET = 2000;
+const MIN_RECENT_MESSAGES = 2;
+const MAX_SUMMARIZED_TOOL_CHARS = 500;
+
+const EMPTY_SESSION: SessionContext = { summary: null, summarizedThrough: 0, analysisId: null };
+
+function transcriptLine(message: ChatMessage): string {
+  if (message.role === 'tool') {
+    return `Tool ${message.metadata?.name ?? ''} result: ${message.content.slice(0, MAX_SUMMARIZED_TOOL_CHARS)}`;
+  }
+  return `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+}
+
+// Rough token estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function toMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+    createdAt: row.created_at
+  };
+}
+
+async function readSession(env: Bindings, sessionId: string): Promise<SessionContext | null> {
+  const row = await env.DB.prepare(
+    'SELECT context FROM user_sessions WHERE session_id = ?'
+  ).bind(sessionId).first<{ context: string | null }>();
+  if (!row) return null;
+
+  // Sessions written before chat history was stored only hold { lastMessage }
+  const context = JSON.parse(row.context || '{}');
+  return {
+    summary: context.summary ?? null,
+    summarizedThrough: context.summarizedThrough ?? 0,
+    analysisId: context.analysisId ?? null
+  };
+}
+
+// Sessions belong to the project that started them. A session id that doesn't exist yet is
+// free to use; null (the admin key) can open any session.
+export async function canAccessSession(env: Bindings, sessionId: string, projectId: number | null): Promise<boolean> {
+  if (projectId === null) return true;
+  const row = await env.DB.prepare(
+    'SELECT project_id FROM user_sessions WHERE session_id = ?'
+  ).bind(sessionId).first<{ project_id: number | null }>();
+  return !row || row.project_id === projectId;
+}
+
+async function writeSession(env: Bindings, sessionId: string, context: SessionContext): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO user_sessions (session_id, context, last_active) VALUES (?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT (session_id) DO UPDATE SET context = excluded.context, last_active = CURRENT_TIMESTAMP`
+  ).bind(sessionId, JSON.stringify(context)).run();
+}
+
+async function summarize(env: Bindings, summary: string | null, messages: ChatMessage[]): Promise<string> {
+  const transcript = messages.map(transcriptLine).join('\n\n');
+
+  const response = await env.AI.run(CHAT_MODEL, {
+    messages: [
+      {
+        role: 'system',
+        content: 'You maintain the memory of an SEO assistant. Merge the existing summary and the new messages into one concise summary (under 200 words). Keep the URLs, scores, issues, decisions and open questions the user cares about.'
+      },
+      {
+        role: 'user',
+        content: `Existing summary:\n${summary ?? 'None'}\n\nNew messages:\n${transcript}`
+      }
+    ],
+    max_tokens: 400
+  });
+
+  return String(response.response ?? '').trim() || summary || '';
+}
+
+// Load the turns to replay, rolling older ones into the summary when over budget
+export async function loadConversation(env: Bindings, sessionId: string): Promise<Conversation> {
+  const session = await readSession(env, sessionId) ?? EMPTY_SESSION;
+
+  const { results } = await env.DB.prepare(
+    `SELECT id, role, content, metadata, created_at FROM chat_messages
+     WHERE session_id = ? AND id > ? ORDER BY id`
+  ).bind(sessionId, session.summarizedThrough).all<ChatMessageRow>();
+  const messages = results.map(toMessage);
+
+  const tokensOf = (list: ChatMessage[]) => list.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  if (messages.length <= MAX_RECENT_MESSAGES && tokensOf(messages) <= HISTORY_TOKEN_BUDGET) {
+    return { summary: session.summary, analysisId: session.analysisId, recent: messages };
+  }
+
+  let keep = Math.min(messages.length, MAX_RECENT_MESSAGES / 2);
+  while (keep > MIN_RECENT_MESSAGES && tokensOf(messages.slice(-keep)) > HISTORY_TOKEN_BUDGET / 2) keep--;
+
+  const older = messages.slice(0, messages.length - keep);
+  const recent = messages.slice(messages.length - keep);
+  if (!older.length) return { summary: session.summary, analysisId: session.analysisId, recent };
+
+  const summary = await summarize(env, session.summary, older);
+  await writeSession(env, sessionId, { ...session, summary, summarizedThrough: older[older.length - 1].id });
+  return { summary, analysisId: session.analysisId, recent };
+}
+
+export async function appendMessages(
+  env: Bindings,
+  sessionId: string,
+  messages: NewChatMessage[],
+  analysisId: number | null = null,
+  projectId: number | null = null
+): Promise<void> {
+  const fresh: SessionContext = { ...EMPTY_SESSION, analysisId };
+  await env.DB.batch([
+    ...messages.map((m) => env.DB.prepare(
+      'INSERT INTO chat_messages (session_id, role, content, metadata) VALUES (?, ?, ?, ?)'
+    ).bind(sessionId, m.role, m.content, m.metadata ? JSON.stringify(m.metadata) : null)),
+    env.DB.prepare(
+      `INSERT INTO user_sessions (session_id, context, project_id, last_active) VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT (session_id) DO UPDATE SET last_active = CURRENT_TIMESTAMP,
+         context = CASE WHEN ? IS NULL THEN context ELSE json_set(COALESCE(context, '{}'), '$.analysisId', ?) END`
+    ).bind(sessionId, JSON.stringify(fresh), projectId, analysisId, analysisId)
+  ]);
+}
+
+export async function getTranscript(env: Bindings, sessionId: string, projectId: number | null = null) {
+  if (!await canAccessSession(env, sessionId, projectId)) return null;
+  const session = await readSession(env, sessionId);
+  const { results } = await env.DB.prepare(
+    'SELECT id, role, content, metadata, created_at FROM chat_messages WHERE session_id = ? ORDER BY id'
+  ).bind(sessionId).all<ChatMessageRow>();
+  if (!session && !results.length) return null;
+
+  return {
+    sessionId,
+    summary: session?.summary ?? null,
+    analysisId: session?.analysisId ?? null,
+    messages: results.map(toMessage)
+  };
+}
+
+// Returns null when the session belongs to another project
+export async function clearTranscript(env: Bindings, sessionId: string, projectId: number | null = null): Promise<number | null> {
+  if (!await canAccessSession(env, sessionId, projectId)) return null;
+  const [deleted] = await env.DB.batch([
+    env.DB.prepare('DELETE FROM chat_messages WHERE session_id = ?').bind(sessionId),
+    env.DB.prepare('DELETE FROM user_sessions WHERE session_id = ?').bind(sessionId)
+  ]);
+  return deleted.meta.changes ?? 0;
+}
+
+// Parse the server-sent events of a streamed Workers AI response
+export async function* readModelEvents(
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): AsyncGenerator<{ response?: string; usage?: Record<string, number> }> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (!data || data === '[DONE]') continue;
+      try {
+        yield JSON.parse(data);
+      } catch {
+        // Ignore keep-alives and partial frames
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+// System prompt with RAG knowledge, the grounding analysis and the running summary, then the
+// replayed turns. Stored tool results are not replayed; the replies that used them are.
+export function buildChatMessages(conversation: Conversation, ragContext: string, message: string, grounding: string | null = null) {
+  const analysis = grounding ? `\n\n${grounding}` : '';
+  const summary = conversation.summary ? `\n\nSummary of the earlier conversation:\n${conversation.summary}` : '';
+  return [
+    {
+      role: 'system',
+      content: `You are an expert SEO consultant. Use this knowledge base to provide accurate advice:\n\n${ragContext}${analysis}${summary}`
+    },
+    ...conversation.recent
+      .filter((m) => m.role !== 'tool')
+      .map((m) => ({ role: m.role, content: m.content })),
+    { role: 'user', content: message }
+  ];
+}
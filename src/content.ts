@@ -0,0 +1,258 @@
+import type { SeoRule } from './rules';
+import type { PageData } from './types';
+
+// Body copy metrics (length, readability) and target keyword placement
+
+export interface KeywordPlacement {
+  title: boolean;
+  h1: boolean;
+  firstParagraph: boolean;
+  url: boolean;
+  imageAlt: boolean;
+}
+
+export interface KeywordAnalysis {
+  keyword: string;
+  occurrences: number;
+  // Share of body words taken up by the keyword, as a percentage
+  density: number;
+  placement: KeywordPlacement;
+}
+
+export interface ContentAudit {
+  wordCount: number;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  averageSyllablesPerWord: number;
+  // Flesch reading ease: 60-70 is plain English, below 30 is very difficult; null without body copy
+  fleschReadingEase: number | null;
+  targetKeyword: KeywordAnalysis | null;
+  secondaryKeywords: KeywordAnalysis[];
+}
+
+export interface ContentOptions {
+  targetKeyword?: string;
+  secondaryKeywords?: string[];
+}
+
+const THIN_CONTENT_WORDS = 300;
+const MIN_READING_EASE = 30;
+const MAX_SENTENCE_LENGTH = 25;
+const MAX_KEYWORD_DENSITY = 3;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) ?? []).map((word) => word.replace(/’/g, "'"));
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Vowel-group heuristic: good enough for English readability scores
+function countSyllables(word: string): number {
+  const letters = word.replace(/[^a-z]/g, '');
+  if (!letters) return 1;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
+
+function countSentences(text: string): number {
+  return text
+    .split(/[.!?…]+(?=\s|$)/)
+    .filter((sentence) => tokenize(sentence).length > 0)
+    .length;
+}
+
+function countPhrase(tokens: string[], phrase: string[]): number {
+  if (!phrase.length) return 0;
+  let count = 0;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, offset) => tokens[i + offset] === word)) count++;
+  }
+  return count;
+}
+
+function containsPhrase(text: string | null, phrase: string[]): boolean {
+  return text ? countPhrase(tokenize(text), phrase) > 0 : false;
+}
+
+// Slug words are split on hyphens, underscores, slashes and dots
+function urlWords(url: string): string {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return '';
+  }
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep the raw path when it has malformed percent-encoding
+  }
+  return path.replace(/[-_/.]+/g, ' ');
+}
+
+function analyzeKeyword(page: PageData, bodyTokens: string[], keyword: string): KeywordAnalysis {
+  const phrase = tokenize(keyword);
+  const occurrences = countPhrase(bodyTokens, phrase);
+  const density = bodyTokens.length ? (occurrences * phrase.length / bodyTokens.length) * 100 : 0;
+
+  return {
+    keyword,
+    occurrences,
+    density: round(density, 2),
+    placement: {
+      title: containsPhrase(page.title, phrase),
+      h1: page.headings.some((h) => h.level === 1 && containsPhrase(h.text, phrase)),
+      firstParagraph: containsPhrase(page.paragraphs[0] ?? null, phrase),
+      url: containsPhrase(urlWords(page.url), phrase),
+      imageAlt: page.images.some((img) => containsPhrase(img.alt, phrase))
+    }
+  };
+}
+
+export function auditContent(page: PageData, options: ContentOptions = {}): ContentAudit {
+  const tokens = tokenize(page.bodyText);
+  const wordCount = tokens.length;
+  const sentenceCount = wordCount ? Math.max(1, countSentences(page.bodyText)) : 0;
+  const syllables = tokens.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  const wordsPerSentence = sentenceCount ? wordCount / sentenceCount : 0;
+  const syllablesPerWord = wordCount ? syllables / wordCount : 0;
+  const fleschReadingEase = wordCount
+    ? round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)
+    : null;
+
+  const targetKeyword = options.targetKeyword?.trim();
+  const secondaryKeywords = (options.secondaryKeywords ?? [])
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword && keyword !== targetKeyword);
+
+  return {
+    wordCount,
+    sentenceCount,
+    averageSentenceLength: round(wordsPerSentence),
+    averageSyllablesPerWord: round(syllablesPerWord, 2),
+    fleschReadingEase,
+    targetKeyword: targetKeyword ? analyzeKeyword(page, tokens, targetKeyword) : null,
+    secondaryKeywords: secondaryKeywords.map((keyword) => analyzeKeyword(page, tokens, keyword))
+  };
+}
+
+// Keyword placement rules only apply when a target keyword was supplied
+function placementRule(
+  id: string,
+  place: keyof KeywordPlacement,
+  weight: number,
+  message: string,
+  recommendation: SeoRule['recommendation']
+): SeoRule {
+  return {
+    id,
+    category: 'content',
+    severity: weight > 0 ? 'warning' : 'info',
+    weight,
+    message,
+    recommendation,
+    check: ({ content }) => {
+      const keyword = content?.targetKeyword;
+      return keyword ? { passed: keyword.placement[place], data: { keyword: keyword.keyword } } : null;
+    }
+  };
+}
+
+export const CONTENT_RULES: SeoRule[] = [
+  {
+    id: 'content-thin',
+    category: 'content',
+    severity: 'warning',
+    weight: 10,
+    message: 'Thin content: only {count} words of body copy (aim for at least 300)',
+    recommendation: { text: '✍️ Expand the body copy so the page fully answers the searcher\'s question', priority: 'Medium' },
+    check: ({ content }) => content
+      ? { passed: content.wordCount >= THIN_CONTENT_WORDS, data: { count: content.wordCount } }
+      : null
+  },
+  {
+    id: 'content-readability-low',
+    category: 'content',
+    severity: 'warning',
+    weight: 5,
+    message: 'Body copy is hard to read (Flesch reading ease {score})',
+    recommendation: { text: '✍️ Use shorter sentences and simpler words to improve readability', priority: 'Low' },
+    check: ({ content }) => content?.fleschReadingEase != null
+      ? { passed: content.fleschReadingEase >= MIN_READING_EASE, data: { score: content.fleschReadingEase } }
+      : null
+  },
+  {
+    id: 'content-long-sentences',
+    category: 'content',
+    severity: 'info',
+    weight: 0,
+    message: 'Sentences average {length} words - aim for 25 or fewer',
+    check: ({ content }) => content?.sentenceCount
+      ? { passed: content.averageSentenceLength <= MAX_SENTENCE_LENGTH, data: { length: content.averageSentenceLength } }
+      : null
+  },
+  {
+    id: 'keyword-not-in-body',
+    category: 'content',
+    severity: 'warning',
+    weight: 10,
+    message: 'Target keyword "{keyword}" does not appear in the body copy',
+    recommendation: { text: '🎯 Work the target keyword naturally into the body copy', priority: 'High' },
+    check: ({ content }) => {
+      const keyword = content?.targetKeyword;
+      return keyword ? { passed: keyword.occurrences > 0, data: { keyword: keyword.keyword } } : null;
+    }
+  },
+  {
+    id: 'keyword-stuffing',
+    category: 'content',
+    severity: 'warning',
+    weight: 10,
+    message: 'Target keyword "{keyword}" makes up {density}% of the body copy - this reads as keyword stuffing',
+    recommendation: { text: '🎯 Reduce keyword repetition below 3% and use synonyms instead', priority: 'High' },
+    check: ({ content }) => {
+      const keyword = content?.targetKeyword;
+      if (!keyword) return null;
+      return {
+        passed: keyword.density <= MAX_KEYWORD_DENSITY,
+        data: { keyword: keyword.keyword, density: keyword.density }
+      };
+    }
+  },
+  placementRule('keyword-not-in-title', 'title', 10, 'Target keyword "{keyword}" is missing from the title', {
+    text: '🎯 Put the target keyword in the title tag, ideally near the start',
+    priority: 'High'
+  }),
+  placementRule('keyword-not-in-h1', 'h1', 5, 'Target keyword "{keyword}" is missing from the H1', {
+    text: '🎯 Include the target keyword in the main H1 heading',
+    priority: 'Medium'
+  }),
+  placementRule('keyword-not-in-first-paragraph', 'firstParagraph', 5, 'Target keyword "{keyword}" is missing from the first paragraph', {
+    text: '🎯 Mention the target keyword in the opening paragraph',
+    priority: 'Medium'
+  }),
+  placementRule('keyword-not-in-url', 'url', 0, 'Target keyword "{keyword}" is not in the URL slug', {
+    text: '🎯 Use the target keyword in the URL slug for new pages',
+    priority: 'Low'
+  }),
+  placementRule('keyword-not-in-alt', 'imageAlt', 0, 'Target keyword "{keyword}" is not used in any image alt text', undefined),
+  {
+    id: 'secondary-keywords-missing',
+    category: 'content',
+    severity: 'info',
+    weight: 0,
+    message: 'Secondary keywords not found in the body copy: {keywords}',
+    check: ({ content }) => {
+      if (!content?.secondaryKeywords.length) return null;
+      const missing = content.secondaryKeywords.filter((k) => k.occurrences === 0).map((k) => k.keyword);
+      return { passed: missing.length === 0, data: { keywords: missing.join(', ') } };
+    }
+  }
+];
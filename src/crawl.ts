@@ -0,0 +1,285 @@
+import { analyzeSeoMultiStep } from './analyzer';
+import { userAgentFor } from './fetcher';
+import { crawlerToken, fetchRobots, verdictFor } from './robots';
+import { fetchSitemapUrls } from './sitemap';
+import { hostOf, isHttpUrl, resolveUrl, stripHash } from './urls';
+import { clampInt } from './validation';
+import type { RobotsFile } from './robots';
+import type { Bindings } from './types';
+
+// Multi-page site crawls, processed in small resumable chunks so no single
+// Worker invocation has to analyze the whole site
+
+export interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  maxPagesPerHost: number;
+  sameHostOnly: boolean;
+  includeSitemap: boolean;
+}
+
+interface CrawlRow {
+  id: number;
+  seed_url: string;
+  options: string;
+  status: string;
+  project_id: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface CrawlPageRow {
+  id: number;
+  url: string;
+  depth: number;
+}
+
+const DEFAULT_OPTIONS: CrawlOptions = {
+  maxDepth: 2,
+  maxPages: 50,
+  maxPagesPerHost: 50,
+  sameHostOnly: true,
+  includeSitemap: true
+};
+
+const MAX_DEPTH_LIMIT = 5;
+const MAX_PAGES_LIMIT = 500;
+const CHUNK_SIZE = 5;
+const LEASE_SECONDS = 120;
+
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|mov|avi|woff2?|ttf|eot)$/i;
+
+export function normalizeCrawlOptions(input: Record<string, unknown>): CrawlOptions {
+  const maxPages = clampInt(input.maxPages, DEFAULT_OPTIONS.maxPages, 1, MAX_PAGES_LIMIT);
+  return {
+    maxDepth: clampInt(input.maxDepth, DEFAULT_OPTIONS.maxDepth, 0, MAX_DEPTH_LIMIT),
+    maxPages,
+    maxPagesPerHost: clampInt(input.maxPagesPerHost, maxPages, 1, maxPages),
+    sameHostOnly: input.sameHostOnly === undefined ? DEFAULT_OPTIONS.sameHostOnly : Boolean(input.sameHostOnly),
+    includeSitemap: input.includeSitemap === undefined ? DEFAULT_OPTIONS.includeSitemap : Boolean(input.includeSitemap)
+  };
+}
+
+// Queue newly discovered URLs while respecting the page, host and scope limits
+async function enqueuePages(
+  env: Bindings,
+  crawlId: number,
+  seedUrl: string,
+  options: CrawlOptions,
+  urls: string[],
+  depth: number,
+  source: string
+): Promise<number> {
+  const { results: hostCounts } = await env.DB.prepare(
+    'SELECT host, COUNT(*) AS count FROM crawl_pages WHERE crawl_id = ? GROUP BY host'
+  ).bind(crawlId).all<{ host: string; count: number }>();
+
+  const perHost = new Map(hostCounts.map((r) => [r.host, r.count]));
+  let total = hostCounts.reduce((sum, r) => sum + r.count, 0);
+  const seedHost = hostOf(seedUrl);
+  const statements: D1PreparedStatement[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of urls) {
+    if (total >= options.maxPages) break;
+    if (!isHttpUrl(raw)) continue;
+
+    const url = stripHash(raw);
+    const host = hostOf(url);
+    if (seen.has(url) || SKIPPED_EXTENSIONS.test(new URL(url).pathname)) continue;
+    if (options.sameHostOnly && host !== seedHost) continue;
+    if ((perHost.get(host) ?? 0) >= options.maxPagesPerHost) continue;
+
+    seen.add(url);
+    statements.push(env.DB.prepare(
+      'INSERT OR IGNORE INTO crawl_pages (crawl_id, url, host, depth, source) VALUES (?, ?, ?, ?, ?)'
+    ).bind(crawlId, url, host, depth, source));
+    perHost.set(host, (perHost.get(host) ?? 0) + 1);
+    total++;
+  }
+
+  if (statements.length === 0) return 0;
+  const results = await env.DB.batch(statements);
+  return results.reduce((sum, r) => sum + (r.meta.changes ?? 0), 0);
+}
+
+export async function createCrawl(
+  seedUrl: string,
+  options: CrawlOptions,
+  env: Bindings,
+  projectId: number | null = null
+): Promise<number> {
+  const created = await env.DB.prepare(
+    'INSERT INTO crawls (seed_url, options, project_id) VALUES (?, ?, ?)'
+  ).bind(seedUrl, JSON.stringify(options), projectId).run();
+  const crawlId = created.meta.last_row_id;
+
+  await enqueuePages(env, crawlId, seedUrl, options, [seedUrl], 0, 'seed');
+
+  if (options.includeSitemap && options.maxDepth > 0) {
+    try {
+      const sitemapUrl = new URL('/sitemap.xml', seedUrl).toString();
+      const urls = await fetchSitemapUrls(sitemapUrl, options.maxPages, userAgentFor(env));
+      await enqueuePages(env, crawlId, seedUrl, options, urls, 1, 'sitemap');
+    } catch {
+      // A missing or broken sitemap just means we rely on link discovery
+    }
+  }
+
+  return crawlId;
+}
+
+// Analyze the next batch of pending pages. Returns false when another
+// invocation already holds the lease or the crawl is no longer running.
+export async function processCrawlChunk(crawlId: number, env: Bindings, chunkSize = CHUNK_SIZE): Promise<boolean> {
+  const lease = await env.DB.prepare(
+    `UPDATE crawls SET locked_until = datetime('now', ?)
+     WHERE id = ? AND status = 'running' AND (locked_until IS NULL OR locked_until < datetime('now'))`
+  ).bind(`+${LEASE_SECONDS} seconds`, crawlId).run();
+  if (!lease.meta.changes) return false;
+
+  const crawl = await env.DB.prepare('SELECT * FROM crawls WHERE id = ?').bind(crawlId).first<CrawlRow>();
+  const options: CrawlOptions = { ...DEFAULT_OPTIONS, ...JSON.parse(crawl.options) };
+
+  const { results: pages } = await env.DB.prepare(
+    `SELECT id, url, depth FROM crawl_pages
+     WHERE crawl_id = ? AND status = 'pending' ORDER BY depth, id LIMIT ?`
+  ).bind(crawlId, chunkSize).all<CrawlPageRow>();
+
+  const robotsByOrigin = new Map<string, RobotsFile>();
+  const userAgent = userAgentFor(env);
+
+  for (const page of pages) {
+    try {
+      const origin = new URL(page.url).origin;
+      if (!robotsByOrigin.has(origin)) robotsByOrigin.set(origin, await fetchRobots(page.url, userAgent));
+      if (!verdictFor(robotsByOrigin.get(origin), crawlerToken(userAgent), page.url).allowed) {
+        await env.DB.prepare(
+          `UPDATE crawl_pages SET status = 'skipped', error = ?, analyzed_at = CURRENT_TIMESTAMP WHERE id = ?`
+        ).bind('Blocked by robots.txt', page.id).run();
+        continue;
+      }
+
+      const { analysisId, pageData, analysis } = await analyzeSeoMultiStep(page.url, env, {
+        checkResources: false,
+        projectId: crawl.project_id
+      });
+      const failedRules = analysis.rules.filter((r) => r.status === 'fail').map((r) => r.id);
+
+      await env.DB.prepare(
+        `UPDATE crawl_pages SET status = 'done', analysis_id = ?, score = ?, failed_rules = ?, analyzed_at = CURRENT_TIMESTAMP
+         WHERE id = ?`
+      ).bind(analysisId, analysis.score, JSON.stringify(failedRules), page.id).run();
+
+      if (page.depth < options.maxDepth) {
+        const discovered = pageData.links
+          .map((link) => resolveUrl(link.href, pageData.url))
+          .filter((url): url is string => url !== null);
+        await enqueuePages(env, crawlId, crawl.seed_url, options, discovered, page.depth + 1, page.url);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await env.DB.prepare(
+        `UPDATE crawl_pages SET status = 'failed', error = ?, analyzed_at = CURRENT_TIMESTAMP WHERE id = ?`
+      ).bind(errorMessage, page.id).run();
+    }
+  }
+
+  const remaining = await env.DB.prepare(
+    `SELECT COUNT(*) AS count FROM crawl_pages WHERE crawl_id = ? AND status = 'pending'`
+  ).bind(crawlId).first<number>('count');
+
+  await env.DB.prepare(
+    `UPDATE crawls SET locked_until = NULL,
+       status = CASE WHEN ? = 0 THEN 'completed' ELSE status END,
+       completed_at = CASE WHEN ? = 0 THEN CURRENT_TIMESTAMP ELSE completed_at END
+     WHERE id = ?`
+  ).bind(remaining, remaining, crawlId).run();
+
+  return true;
+}
+
+// Advance every running crawl by one chunk (used by the cron trigger)
+export async function advanceCrawls(env: Bindings): Promise<void> {
+  const { results } = await env.DB.prepare(
+    `SELECT id FROM crawls WHERE status = 'running' ORDER BY created_at LIMIT 5`
+  ).all<{ id: number }>();
+
+  for (const { id } of results) {
+    await processCrawlChunk(id, env);
+  }
+}
+
+// Scoped to the caller's project; null (the admin key) sees every crawl
+export async function getCrawlReport(crawlId: number, env: Bindings, projectId: number | null = null) {
+  const crawl = await env.DB.prepare(
+    'SELECT * FROM crawls WHERE id = ?1 AND (?2 IS NULL OR project_id = ?2)'
+  ).bind(crawlId, projectId).first<CrawlRow>();
+  if (!crawl) return null;
+
+  const { results: pages } = await env.DB.prepare(
+    `SELECT url, depth, source, status, analysis_id, score, failed_rules, error, analyzed_at
+     FROM crawl_pages WHERE crawl_id = ? ORDER BY depth, id`
+  ).bind(crawlId).all<{
+    url: string;
+    depth: number;
+    source: string;
+    status: string;
+    analysis_id: number | null;
+    score: number | null;
+    failed_rules: string | null;
+    error: string | null;
+    analyzed_at: string | null;
+  }>();
+
+  const analyzed = pages.filter((p) => p.status === 'done');
+  const ruleCounts = new Map<string, number>();
+  for (const page of analyzed) {
+    for (const ruleId of JSON.parse(page.failed_rules || '[]') as string[]) {
+      ruleCounts.set(ruleId, (ruleCounts.get(ruleId) ?? 0) + 1);
+    }
+  }
+
+  // Pages whose llm-mode review failed have no score
+  const scored = analyzed.filter((p) => p.score !== null);
+  const averageScore = scored.length
+    ? Math.round(scored.reduce((sum, p) => sum + p.score, 0) / scored.length)
+    : null;
+
+  return {
+    id: crawl.id,
+    seedUrl: crawl.seed_url,
+    options: JSON.parse(crawl.options) as CrawlOptions,
+    status: crawl.status,
+    createdAt: crawl.created_at,
+    completedAt: crawl.completed_at,
+    progress: {
+      discovered: pages.length,
+      analyzed: analyzed.length,
+      failed: pages.filter((p) => p.status === 'failed').length,
+      skipped: pages.filter((p) => p.status === 'skipped').length,
+      pending: pages.filter((p) => p.status === 'pending').length
+    },
+    aggregates: {
+      averageScore,
+      worstPages: [...scored]
+        .sort((a, b) => a.score - b.score)
+        .slice(0, 5)
+        .map((p) => ({ url: p.url, score: p.score, analysisId: p.analysis_id })),
+      commonIssues: [...ruleCounts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([ruleId, count]) => ({ ruleId, pages: count }))
+    },
+    pages: pages.map((p) => ({
+      url: p.url,
+      depth: p.depth,
+      source: p.source,
+      status: p.status,
+      analysisId: p.analysis_id,
+      score: p.score,
+      error: p.error,
+      analyzedAt: p.analyzed_at
+    }))
+  };
+}
@@ -0,0 +1,199 @@
+import { userAgentFor } from './fetcher';
+import { GOOGLEBOT_TOKEN, crawlerToken, fetchRobots, verdictFor } from './robots';
+import { auditSitemap } from './sitemap';
+import type { RobotsFile, RobotsVerdict } from './robots';
+import type { SeoRule } from './rules';
+import type { SitemapAudit } from './sitemap';
+import type { Bindings } from './types';
+
+// robots.txt and XML sitemap audit for the analyzed URL
+
+export interface CrawlabilityAudit {
+  robots: {
+    url: string;
+    status: number | null;
+    found: boolean;
+    reachable: boolean;
+    sitemaps: string[];
+    blocked: {
+      googlebot: RobotsVerdict;
+      crawler: RobotsVerdict;
+    };
+  };
+  sitemaps: SitemapAudit[];
+}
+
+interface SiteFiles {
+  robots: RobotsFile;
+  sitemaps: SitemapAudit[];
+}
+
+const SITE_FILES_TTL = 3600;
+const MAX_SITEMAPS = 3;
+
+// robots.txt and sitemaps are per-origin, so cache them across pages of the same site
+async function loadSiteFiles(pageUrl: string, env: Bindings): Promise<SiteFiles> {
+  const origin = new URL(pageUrl).origin;
+  const cacheKey = `site-files:${origin}`;
+  const cached = await env.CACHE.get(cacheKey);
+  if (cached) return JSON.parse(cached) as SiteFiles;
+
+  const userAgent = userAgentFor(env);
+  const robots = await fetchRobots(pageUrl, userAgent);
+  const sitemapUrls = robots.robots.sitemaps.length
+    ? robots.robots.sitemaps.slice(0, MAX_SITEMAPS)
+    : [`${origin}/sitemap.xml`];
+
+  const budget = { entryChecks: 10 };
+  const sitemaps: SitemapAudit[] = [];
+  for (const url of sitemapUrls) {
+    sitemaps.push(await auditSitemap(url, userAgent, budget));
+  }
+
+  const files = { robots, sitemaps };
+  await env.CACHE.put(cacheKey, JSON.stringify(files), { expirationTtl: SITE_FILES_TTL });
+  return files;
+}
+
+export async function auditCrawlability(pageUrl: string, env: Bindings): Promise<CrawlabilityAudit> {
+  const { robots, sitemaps } = await loadSiteFiles(pageUrl, env);
+  return {
+    robots: {
+      url: robots.url,
+      status: robots.status,
+      found: robots.status === 200,
+      reachable: robots.reachable,
+      sitemaps: robots.robots.sitemaps,
+      blocked: {
+        googlebot: verdictFor(robots, GOOGLEBOT_TOKEN, pageUrl),
+        crawler: verdictFor(robots, crawlerToken(userAgentFor(env)), pageUrl)
+      }
+    },
+    sitemaps
+  };
+}
+
+function flattenSitemaps(audits: SitemapAudit[]): SitemapAudit[] {
+  return audits.flatMap((audit) => [audit, ...flattenSitemaps(audit.children)]);
+}
+
+function foundSitemaps(audit: CrawlabilityAudit): SitemapAudit[] {
+  return flattenSitemaps(audit.sitemaps).filter((s) => s.status === 200);
+}
+
+function describeRule(verdict: RobotsVerdict): string {
+  return verdict.matchedRule ? `${verdict.matchedRule.type}: ${verdict.matchedRule.path}` : 'unknown rule';
+}
+
+export const CRAWLABILITY_RULES: SeoRule[] = [
+  {
+    id: 'robots-unreachable',
+    category: 'crawlability',
+    severity: 'critical',
+    weight: 20,
+    message: 'robots.txt at {url} is unreachable ({status}) - Google stops crawling the site until it can be read',
+    recommendation: { text: '🤖 Fix the server error on robots.txt so search engines can crawl the site', priority: 'High' },
+    check: ({ crawlability }) => crawlability
+      ? {
+        passed: crawlability.robots.reachable,
+        data: { url: crawlability.robots.url, status: crawlability.robots.status ?? 'network error' }
+      }
+      : null
+  },
+  {
+    id: 'robots-blocks-googlebot',
+    category: 'crawlability',
+    severity: 'critical',
+    weight: 40,
+    message: 'This URL is blocked for Googlebot by robots.txt ({rule})',
+    recommendation: { text: '🤖 Remove the robots.txt Disallow rule that blocks this page from Googlebot', priority: 'High' },
+    check: ({ crawlability }) => crawlability?.robots.reachable
+      ? {
+        passed: crawlability.robots.blocked.googlebot.allowed,
+        data: { rule: describeRule(crawlability.robots.blocked.googlebot) }
+      }
+      : null
+  },
+  {
+    id: 'robots-blocks-crawler',
+    category: 'crawlability',
+    severity: 'info',
+    weight: 0,
+    message: 'This URL is blocked for our crawler ({agent}) by robots.txt ({rule}) - crawls will skip it',
+    check: ({ crawlability }) => crawlability?.robots.reachable
+      ? {
+        passed: crawlability.robots.blocked.crawler.allowed,
+        data: { agent: crawlability.robots.blocked.crawler.userAgent, rule: describeRule(crawlability.robots.blocked.crawler) }
+      }
+      : null
+  },
+  {
+    id: 'sitemap-missing',
+    category: 'crawlability',
+    severity: 'warning',
+    weight: 5,
+    message: 'No XML sitemap found (checked {checked})',
+    recommendation: { text: '🗺️ Publish an XML sitemap and submit it to Google Search Console for better indexing', priority: 'Low' },
+    check: ({ crawlability }) => crawlability
+      ? {
+        passed: foundSitemaps(crawlability).length > 0,
+        data: { checked: crawlability.sitemaps.map((s) => s.url).join(', ') }
+      }
+      : null
+  },
+  {
+    id: 'sitemap-not-in-robots',
+    category: 'crawlability',
+    severity: 'info',
+    weight: 0,
+    message: 'robots.txt does not reference the sitemap with a Sitemap: directive',
+    recommendation: { text: '🗺️ Add a Sitemap: line to robots.txt pointing at your XML sitemap', priority: 'Low' },
+    check: ({ crawlability }) => crawlability && foundSitemaps(crawlability).length > 0
+      ? { passed: crawlability.robots.sitemaps.length > 0 }
+      : null
+  },
+  {
+    id: 'sitemap-invalid',
+    category: 'crawlability',
+    severity: 'warning',
+    weight: 5,
+    message: 'Sitemap validation failed: {errors}',
+    recommendation: { text: '🗺️ Fix sitemap structure and keep each file under 50MB and 50,000 URLs', priority: 'Medium' },
+    check: ({ crawlability }) => {
+      if (!crawlability) return null;
+      const errors = foundSitemaps(crawlability).flatMap((s) => s.errors.map((e) => `${s.url}: ${e}`));
+      const crossHost = foundSitemaps(crawlability).flatMap((s) => s.crossHostEntries);
+      if (crossHost.length) errors.push(`entries on a different host than the sitemap (e.g. ${crossHost[0]})`);
+      return { passed: errors.length === 0, data: { count: errors.length, errors: errors.join('; ') } };
+    }
+  },
+  {
+    id: 'sitemap-invalid-lastmod',
+    category: 'crawlability',
+    severity: 'info',
+    weight: 0,
+    message: '{count} sitemap entries have a <lastmod> that is not a W3C datetime (e.g. {example})',
+    recommendation: { text: '🗺️ Use W3C datetime values (YYYY-MM-DD or full ISO 8601) for <lastmod>', priority: 'Low' },
+    check: ({ crawlability }) => {
+      if (!crawlability) return null;
+      const invalid = foundSitemaps(crawlability).flatMap((s) => s.invalidLastmod);
+      return { passed: invalid.length === 0, data: { count: invalid.length, example: invalid[0] ?? '' } };
+    }
+  },
+  {
+    id: 'sitemap-bad-entries',
+    category: 'crawlability',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} sampled sitemap entries are not indexable: {details}',
+    recommendation: { text: '🗺️ List only canonical, 200-status URLs in your sitemap', priority: 'Medium' },
+    check: ({ crawlability }) => {
+      if (!crawlability) return null;
+      const bad = foundSitemaps(crawlability).flatMap((s) => s.entryChecks).filter((e) => e.problem);
+      return {
+        passed: bad.length === 0,
+        data: { count: bad.length, details: bad.map((e) => `${e.loc} ${e.problem}`).join('; ') }
+      };
+    }
+  }
+];
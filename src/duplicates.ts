@@ -0,0 +1,268 @@
+import { tokenize } from './content';
+import { sha256Hex } from './hash';
+import { hostOf, normalizeUrl } from './urls';
+import type { IndexabilityAudit } from './indexability';
+import type { Bindings, PageData } from './types';
+
+// Content fingerprints stored per analysis, and the per-site report that groups exact
+// duplicate titles and metas and clusters near-duplicate body copy
+
+export interface ContentFingerprint {
+  // SHA-256 of the normalized text; null when the page has none
+  titleHash: string | null;
+  metaHash: string | null;
+  textHash: string | null;
+  // 64-bit simhash of the body copy's word shingles, as 16 hex digits
+  simhash: string;
+  wordCount: number;
+  // The page's declared canonical, resolved
+  canonical: string | null;
+}
+
+export interface DuplicatePage {
+  analysisId: number;
+  url: string;
+  canonical: string | null;
+  analyzedAt: string;
+}
+
+export interface DuplicateGroup {
+  value: string;
+  pages: DuplicatePage[];
+  // Every page canonicalizes to the same URL, so only that one competes in search
+  canonicalizesTogether: boolean;
+  canonical: string | null;
+}
+
+export interface NearDuplicateCluster {
+  pages: Array<DuplicatePage & { wordCount: number }>;
+  // Lowest pairwise simhash similarity in the cluster, 0-1
+  similarity: number;
+  // All pages have exactly the same body copy
+  identical: boolean;
+  canonicalizesTogether: boolean;
+  canonical: string | null;
+}
+
+export interface DuplicateReport {
+  host: string;
+  pages: number;
+  // More pages were analyzed than the report covers
+  truncated: boolean;
+  maxDistance: number;
+  titles: DuplicateGroup[];
+  metaDescriptions: DuplicateGroup[];
+  nearDuplicates: NearDuplicateCluster[];
+}
+
+interface FingerprintRow {
+  analysis_id: number;
+  url: string;
+  title_hash: string | null;
+  meta_hash: string | null;
+  text_hash: string | null;
+  simhash: string;
+  word_count: number;
+  canonical: string | null;
+  title: string | null;
+  meta_description: string | null;
+  created_at: string;
+}
+
+const SHINGLE_SIZE = 3;
+// Shorter pages share too few shingles for their simhashes to mean anything
+const MIN_NEAR_DUPLICATE_WORDS = 50;
+// Sites with more pages are reported on their most recently analyzed ones
+const MAX_REPORT_PAGES = 1000;
+export const DEFAULT_MAX_DISTANCE = 6;
+export const MAX_DISTANCE_LIMIT = 16;
+
+function normalizeText(text: string | null): string | null {
+  const normalized = text?.toLowerCase().replace(/\s+/g, ' ').trim();
+  return normalized || null;
+}
+
+// FNV-1a with a murmur3 finalizer, so every output bit depends on every input bit
+function hash32(text: string, seed: number): number {
+  let h = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function toHex(word: number): string {
+  return word.toString(16).padStart(8, '0');
+}
+
+// Each shingle votes on all 64 bits; the fingerprint keeps the majority
+function simhash(tokens: string[]): string {
+  const size = Math.min(SHINGLE_SIZE, tokens.length);
+  const votes = new Array<number>(64).fill(0);
+  for (let i = 0; size > 0 && i + size <= tokens.length; i++) {
+    const shingle = tokens.slice(i, i + size).join(' ');
+    const halves = [hash32(shingle, 0x811c9dc5), hash32(shingle, 0x9747b28c)];
+    for (let bit = 0; bit < 64; bit++) {
+      votes[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (votes[bit] > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  }
+  return toHex(halves[1] >>> 0) + toHex(halves[0] >>> 0);
+}
+
+function popCount(word: number): number {
+  let n = word - ((word >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+// Number of differing bits between two simhashes
+function hammingDistance(a: string, b: string): number {
+  return popCount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16))
+    + popCount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+}
+
+export async function fingerprintPage(page: PageData, indexability?: IndexabilityAudit): Promise<ContentFingerprint> {
+  const tokens = tokenize(page.bodyText);
+  const hashOf = async (text: string | null) => text ? sha256Hex(text) : null;
+
+  return {
+    titleHash: await hashOf(normalizeText(page.title)),
+    metaHash: await hashOf(normalizeText(page.metaDescription)),
+    textHash: await hashOf(tokens.join(' ') || null),
+    simhash: simhash(tokens),
+    wordCount: tokens.length,
+    canonical: indexability?.canonical.url ?? null
+  };
+}
+
+// Written in the same batch as the analysis' issues
+export function insertFingerprint(
+  env: Bindings,
+  analysisId: number,
+  url: string,
+  fingerprint: ContentFingerprint,
+  projectId: number | null
+): D1PreparedStatement {
+  return env.DB.prepare(
+    `INSERT INTO content_fingerprints
+       (analysis_id, project_id, host, url, title_hash, meta_hash, text_hash, simhash, word_count, canonical)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    analysisId,
+    projectId,
+    hostOf(url),
+    url,
+    fingerprint.titleHash,
+    fingerprint.metaHash,
+    fingerprint.textHash,
+    fingerprint.simhash,
+    fingerprint.wordCount,
+    fingerprint.canonical
+  );
+}
+
+function toPage(row: FingerprintRow): DuplicatePage {
+  return { analysisId: row.analysis_id, url: row.url, canonical: row.canonical, analyzedAt: row.created_at };
+}
+
+// Pages canonicalize together when each one's canonical (or, without one, its own URL)
+// is the same page
+function sharedCanonical(rows: FingerprintRow[]): string | null {
+  const targets = new Set(rows.map((row) => normalizeUrl(row.canonical ?? row.url)));
+  return targets.size === 1 ? [...targets][0] : null;
+}
+
+function exactGroups(rows: FingerprintRow[], key: 'title_hash' | 'meta_hash', label: 'title' | 'meta_description'): DuplicateGroup[] {
+  const groups = new Map<string, FingerprintRow[]>();
+  for (const row of rows) {
+    if (row[key]) groups.set(row[key], [...(groups.get(row[key]) ?? []), row]);
+  }
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length)
+    .map((group) => {
+      const canonical = sharedCanonical(group);
+      return { value: group[0][label] ?? '', pages: group.map(toPage), canonicalizesTogether: canonical !== null, canonical };
+    });
+}
+
+// Single-linkage clusters: pages join when within maxDistance bits of any member
+function nearDuplicateClusters(rows: FingerprintRow[], maxDistance: number): NearDuplicateCluster[] {
+  const candidates = rows.filter((row) => row.word_count >= MIN_NEAR_DUPLICATE_WORDS);
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (hammingDistance(candidates[i].simhash, candidates[j].simhash) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, FingerprintRow[]>();
+  candidates.forEach((row, i) => clusters.set(find(i), [...(clusters.get(find(i)) ?? []), row]));
+
+  return [...clusters.values()]
+    .filter((cluster) => cluster.length > 1)
+    .map((cluster) => {
+      let widest = 0;
+      for (let i = 0; i < cluster.length; i++) {
+        for (let j = i + 1; j < cluster.length; j++) {
+          widest = Math.max(widest, hammingDistance(cluster[i].simhash, cluster[j].simhash));
+        }
+      }
+      const canonical = sharedCanonical(cluster);
+      return {
+        pages: cluster.map((row) => ({ ...toPage(row), wordCount: row.word_count })),
+        similarity: Math.round((1 - widest / 64) * 100) / 100,
+        identical: cluster.every((row) => row.text_hash === cluster[0].text_hash),
+        canonicalizesTogether: canonical !== null,
+        canonical
+      };
+    })
+    .sort((a, b) => b.pages.length - a.pages.length || b.similarity - a.similarity);
+}
+
+// Duplicates across the latest analysis of each URL on one host. Project keys only see
+// their own analyses; null (the admin key) sees every project.
+export async function getDuplicateReport(
+  env: Bindings,
+  host: string,
+  maxDistance = DEFAULT_MAX_DISTANCE,
+  projectId: number | null = null
+): Promise<DuplicateReport> {
+  const { results } = await env.DB.prepare(
+    `SELECT f.analysis_id, f.url, f.title_hash, f.meta_hash, f.text_hash, f.simhash, f.word_count, f.canonical,
+       a.title, a.meta_description, a.created_at
+     FROM content_fingerprints f JOIN seo_analyses a ON a.id = f.analysis_id
+     WHERE f.host = ?1 AND (?2 IS NULL OR f.project_id = ?2)
+       AND f.analysis_id = (
+         SELECT MAX(g.analysis_id) FROM content_fingerprints g
+         WHERE g.host = f.host AND g.url = f.url AND (?2 IS NULL OR g.project_id = ?2)
+       )
+     ORDER BY f.analysis_id DESC LIMIT ?3`
+  ).bind(host, projectId, MAX_REPORT_PAGES + 1).all<FingerprintRow>();
+
+  const rows = results.slice(0, MAX_REPORT_PAGES).sort((a, b) => a.url.localeCompare(b.url));
+
+  return {
+    host,
+    pages: rows.length,
+    truncated: results.length > MAX_REPORT_PAGES,
+    maxDistance,
+    titles: exactGroups(rows, 'title_hash', 'title'),
+    metaDescriptions: exactGroups(rows, 'meta_hash', 'meta_description'),
+    nearDuplicates: nearDuplicateClusters(rows, maxDistance)
+  };
+}
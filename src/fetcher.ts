@@ -0,0 +1,451 @@
+import { sha256Hex } from './hash';
+import type { RedirectHop } from './links';
+import type { Bindings } from './types';
+
+// Page fetching for analysis, and the other subrequests made on a page's behalf: only
+// public http(s) hosts, redirects followed by hand and re-checked at every hop, bounded
+// time and size. Pages fetched for analysis must be HTML.
+
+export type FetchErrorCode =
+  | 'invalid_url'
+  | 'blocked_host'
+  | 'too_many_redirects'
+  | 'redirect_loop'
+  | 'timeout'
+  | 'too_large'
+  | 'unsupported_content_type'
+  | 'http_error'
+  | 'network_error';
+
+export interface FetchOptions {
+  userAgent: string;
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+}
+
+export interface FetchMeta {
+  requestedUrl: string;
+  finalUrl: string;
+  status: number;
+  redirects: RedirectHop[];
+  contentType: string | null;
+  bytes: number;
+  durationMs: number;
+  // Validators for the next conditional refetch
+  etag: string | null;
+  lastModified: string | null;
+  // Indexing and transport headers, audited by src/indexability.ts
+  xRobotsTag: string | null;
+  hsts: string | null;
+  link: string | null;
+  // SHA-256 of the HTML; null on a 304
+  contentHash: string | null;
+}
+
+// Validators from an earlier fetch of the same page
+export interface ConditionalHeaders {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export interface FetchedPage {
+  html: string;
+  meta: FetchMeta;
+}
+
+// Response status for each failure when it surfaces through the API
+const ERROR_STATUS: Record<FetchErrorCode, 400 | 403 | 413 | 415 | 422 | 502 | 504> = {
+  invalid_url: 400,
+  blocked_host: 403,
+  too_many_redirects: 502,
+  redirect_loop: 502,
+  timeout: 504,
+  too_large: 413,
+  unsupported_content_type: 415,
+  http_error: 422,
+  network_error: 502
+};
+
+export class FetchError extends Error {
+  readonly code: FetchErrorCode;
+  readonly status: 400 | 403 | 413 | 415 | 422 | 502 | 504;
+  readonly url: string;
+  // Status of the target page, for http_error
+  readonly upstreamStatus: number | null;
+
+  constructor(code: FetchErrorCode, message: string, url: string, upstreamStatus: number | null = null) {
+    super(message);
+    this.name = 'FetchError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.url = url;
+    this.upstreamStatus = upstreamStatus;
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code, url: this.url, upstreamStatus: this.upstreamStatus };
+  }
+}
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; SEOAgentBot/1.0)';
+
+const DEFAULT_FETCH_OPTIONS: FetchOptions = {
+  userAgent: DEFAULT_USER_AGENT,
+  timeoutMs: 15000,
+  maxBytes: 5 * 1024 * 1024,
+  maxRedirects: 5
+};
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Hostnames that resolve to the local machine or cloud metadata services
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal', 'instance-data', 'instance-data.ec2.internal'];
+const BLOCKED_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.home.arpa'];
+
+// Non-public IPv4 ranges as [first octet, second octet, prefix length]
+const BLOCKED_IPV4: [number, number, number][] = [
+  [0, 0, 8],        // "this" network
+  [10, 0, 8],       // private
+  [100, 64, 10],    // carrier-grade NAT
+  [127, 0, 8],      // loopback
+  [169, 254, 16],   // link-local, including the 169.254.169.254 metadata endpoint
+  [172, 16, 12],    // private
+  [192, 0, 24],     // IETF protocol assignments
+  [192, 168, 16],   // private
+  [198, 18, 15],    // benchmarking
+  [224, 0, 4],      // multicast
+  [240, 0, 4]       // reserved and broadcast
+];
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+  return parts.reduce((n, p) => n * 256 + Number(p), 0);
+}
+
+function isBlockedIpv4(ip: string): boolean {
+  const value = ipv4ToInt(ip);
+  if (value === null) return false;
+  return BLOCKED_IPV4.some(([a, b, bits]) => {
+    const base = ((a << 24) >>> 0) + (b << 16);
+    const mask = (~0 << (32 - bits)) >>> 0;
+    return ((value & mask) >>> 0) === ((base & mask) >>> 0);
+  });
+}
+
+// Loopback, unspecified, unique-local (fc00::/7), link-local (fe80::/10) and IPv4-mapped private addresses
+function isBlockedIpv6(host: string): boolean {
+  const ip = host.replace(/^\[|\]$/g, '').toLowerCase();
+  if (ip === '::' || ip === '::1') return true;
+  if (/^f[cd][0-9a-f]{0,2}:/.test(ip) || /^fe[89ab][0-9a-f]?:/.test(ip)) return true;
+
+  const mapped = ip.match(/^::ffff:(.+)$/);
+  if (mapped) {
+    const tail = mapped[1];
+    if (tail.includes('.')) return isBlockedIpv4(tail);
+    // The URL parser rewrites ::ffff:a.b.c.d to hex groups
+    const [high, low] = tail.split(':').map((g) => parseInt(g, 16));
+    return isBlockedIpv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return false;
+}
+
+// Throws a FetchError unless the URL is http(s) on a public host. Hostnames are checked by
+// name only since Workers can't resolve DNS; this matters most under `wrangler dev`,
+// where fetch can reach the local network.
+export function assertPublicUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new FetchError('invalid_url', 'URL is not valid', value);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError('invalid_url', 'Only http and https URLs can be analyzed', value);
+  }
+  if (url.username || url.password) {
+    throw new FetchError('invalid_url', 'URLs with credentials are not allowed', value);
+  }
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (
+    !host
+    || BLOCKED_HOSTNAMES.includes(host)
+    || BLOCKED_SUFFIXES.some((suffix) => host.endsWith(suffix))
+    || isBlockedIpv4(host)
+    || (host.startsWith('[') && isBlockedIpv6(host))
+  ) {
+    throw new FetchError('blocked_host', `Host ${url.hostname} is private or reserved`, value);
+  }
+  return url;
+}
+
+// Every request the worker makes identifies itself the same way, pages or not
+export function userAgentFor(env: Bindings): string {
+  return env.FETCH_USER_AGENT || DEFAULT_FETCH_OPTIONS.userAgent;
+}
+
+export function fetchOptionsFromEnv(env: Bindings): FetchOptions {
+  const positive = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  return {
+    userAgent: userAgentFor(env),
+    timeoutMs: positive(env.FETCH_TIMEOUT_MS, DEFAULT_FETCH_OPTIONS.timeoutMs),
+    maxBytes: positive(env.FETCH_MAX_BYTES, DEFAULT_FETCH_OPTIONS.maxBytes),
+    maxRedirects: DEFAULT_FETCH_OPTIONS.maxRedirects
+  };
+}
+
+// Read at most maxBytes of the body, cancelling the stream as soon as the limit is passed
+async function readLimited(response: Response, maxBytes: number, url: string): Promise<{ text: string; bytes: number }> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new FetchError('too_large', `Page is larger than ${maxBytes} bytes`, url);
+  }
+  if (!response.body) return { text: '', bytes: 0 };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      throw new FetchError('too_large', `Page is larger than ${maxBytes} bytes`, url);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return { text: text + decoder.decode(), bytes };
+}
+
+// Read up to maxBytes of the body as bytes; past the limit, either stop there (truncate)
+// or fail with too_large
+async function readBytes(response: Response, maxBytes: number, truncate: boolean, url: string): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes && !truncate) {
+    await response.body?.cancel();
+    throw new FetchError('too_large', `Response is larger than ${maxBytes} bytes`, url);
+  }
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total <= maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  if (total > maxBytes) {
+    await reader.cancel().catch(() => undefined);
+    if (!truncate) throw new FetchError('too_large', `Response is larger than ${maxBytes} bytes`, url);
+  }
+
+  const data = new Uint8Array(Math.min(total, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, data.length - offset);
+    data.set(slice, offset);
+    offset += slice.length;
+  }
+  return data;
+}
+
+export interface PublicFetchInit {
+  // From userAgentFor, so these requests match page fetches
+  userAgent: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  // 0 returns a redirect as the response instead of following it
+  maxRedirects?: number;
+  timeoutMs?: number;
+  maxBytes?: number;
+  // Keep the first maxBytes of a larger body instead of failing with too_large
+  truncate?: boolean;
+}
+
+export interface PublicResponse {
+  // After redirects
+  url: string;
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  redirects: RedirectHop[];
+  // Only 2xx bodies are read; others are empty
+  body: Uint8Array;
+  text(): string;
+}
+
+// Subrequests to URLs taken from pages, sitemaps and user settings (robots.txt, sitemaps,
+// images, webhooks) under the same rules as fetchPage: public hosts only at every hop,
+// bounded time and size. Failures are FetchErrors.
+export async function fetchPublic(url: string, init: PublicFetchInit): Promise<PublicResponse> {
+  const maxRedirects = init.maxRedirects ?? DEFAULT_FETCH_OPTIONS.maxRedirects;
+  const timeoutMs = init.timeoutMs ?? DEFAULT_FETCH_OPTIONS.timeoutMs;
+  const maxBytes = init.maxBytes ?? DEFAULT_FETCH_OPTIONS.maxBytes;
+  const redirects: RedirectHop[] = [];
+  const visited = new Set<string>();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let current = assertPublicUrl(url).toString();
+
+  try {
+    for (let hop = 0; ; hop++) {
+      if (visited.has(current)) {
+        throw new FetchError('redirect_loop', `Redirect loop at ${current}`, url);
+      }
+      visited.add(current);
+
+      const response = await fetch(current, {
+        method: init.method ?? 'GET',
+        body: init.body,
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: { 'User-Agent': init.userAgent, ...init.headers }
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location && maxRedirects > 0) {
+        await response.body?.cancel();
+        if (hop >= maxRedirects) {
+          throw new FetchError('too_many_redirects', `More than ${maxRedirects} redirects`, url);
+        }
+        redirects.push({ url: current, status: response.status, location });
+        current = assertPublicUrl(new URL(location, current).toString()).toString();
+        continue;
+      }
+
+      let body: Uint8Array = new Uint8Array(0);
+      if (response.ok) {
+        body = await readBytes(response, maxBytes, init.truncate ?? false, url);
+      } else {
+        await response.body?.cancel();
+      }
+      return {
+        url: current,
+        status: response.status,
+        ok: response.ok,
+        headers: response.headers,
+        redirects,
+        body,
+        text: () => new TextDecoder().decode(body)
+      };
+    }
+  } catch (error) {
+    if (error instanceof FetchError) throw error;
+    if (controller.signal.aborted) {
+      throw new FetchError('timeout', `Timed out after ${timeoutMs} ms`, url);
+    }
+    throw new FetchError('network_error', error instanceof Error ? error.message : 'Request failed', url);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Fetch an HTML page for analysis; anything else is a FetchError. With validators the
+// request is conditional, and an unchanged page comes back as status 304 with no HTML.
+export async function fetchPage(url: string, env: Bindings, validators: ConditionalHeaders | null = null): Promise<FetchedPage> {
+  const options = fetchOptionsFromEnv(env);
+  const started = Date.now();
+  const redirects: RedirectHop[] = [];
+  const visited = new Set<string>();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  let current = assertPublicUrl(url).toString();
+
+  try {
+    for (let hop = 0; ; hop++) {
+      if (visited.has(current)) {
+        throw new FetchError('redirect_loop', `Redirect loop at ${current}`, url);
+      }
+      visited.add(current);
+
+      let response: Response;
+      try {
+        response = await fetch(current, {
+          redirect: 'manual',
+          signal: controller.signal,
+          headers: {
+            'User-Agent': options.userAgent,
+            Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+            ...(validators?.etag ? { 'If-None-Match': validators.etag } : {}),
+            ...(validators?.lastModified ? { 'If-Modified-Since': validators.lastModified } : {})
+          }
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new FetchError('timeout', `Timed out after ${options.timeoutMs} ms`, url);
+        }
+        throw new FetchError('network_error', error instanceof Error ? error.message : 'Request failed', url);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (hop >= options.maxRedirects) {
+          throw new FetchError('too_many_redirects', `More than ${options.maxRedirects} redirects`, url);
+        }
+        redirects.push({ url: current, status: response.status, location });
+        // Every hop is re-checked so a public page can't redirect into the private network
+        current = assertPublicUrl(new URL(location, current).toString()).toString();
+        continue;
+      }
+
+      const meta = (bytes: number, contentHash: string | null): FetchMeta => ({
+        requestedUrl: url,
+        finalUrl: current,
+        status: response.status,
+        redirects,
+        contentType: response.headers.get('content-type'),
+        bytes,
+        durationMs: Date.now() - started,
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        xRobotsTag: response.headers.get('x-robots-tag'),
+        hsts: response.headers.get('strict-transport-security'),
+        link: response.headers.get('link'),
+        contentHash
+      });
+
+      if (response.status === 304 && validators) {
+        await response.body?.cancel();
+        return { html: '', meta: meta(0, null) };
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        await response.body?.cancel();
+        throw new FetchError('http_error', `Page returned HTTP ${response.status}`, url, response.status);
+      }
+
+      const contentType = response.headers.get('content-type');
+      const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+      if (mimeType && !HTML_TYPES.includes(mimeType)) {
+        await response.body?.cancel();
+        throw new FetchError('unsupported_content_type', `Expected an HTML page, got ${mimeType}`, url);
+      }
+
+      try {
+        const { text, bytes } = await readLimited(response, options.maxBytes, url);
+        return { html: text, meta: meta(bytes, await sha256Hex(text)) };
+      } catch (error) {
+        if (error instanceof FetchError) throw error;
+        if (controller.signal.aborted) {
+          throw new FetchError('timeout', `Timed out after ${options.timeoutMs} ms`, url);
+        }
+        throw new FetchError('network_error', error instanceof Error ? error.message : 'Read failed', url);
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,150 @@
+import type { Recommendation, SeoRule } from './rules';
+import type { Heading, PageData } from './types';
+
+// Document outline: H1-H6 rebuilt into a tree, checked for a single H1 and for levels
+// that nest in order
+
+export interface OutlineNode {
+  level: number;
+  text: string;
+  children: OutlineNode[];
+}
+
+export interface SkippedLevel {
+  from: number;
+  to: number;
+  text: string;
+}
+
+export interface HeadingAudit {
+  outline: OutlineNode[];
+  // The outline as indented plain text, one heading per line, for display
+  rendered: string;
+  h1: string[];
+  skippedLevels: SkippedLevel[];
+  // Levels of headings without text, in document order
+  emptyLevels: number[];
+  h1MatchesTitle: boolean;
+}
+
+// Failure messages quote at most this many headings
+const LISTED_HEADINGS = 3;
+
+function comparable(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function buildOutline(headings: Heading[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const open: OutlineNode[] = [];
+  for (const { level, text } of headings) {
+    const node: OutlineNode = { level, text, children: [] };
+    while (open.length && open[open.length - 1].level >= level) open.pop();
+    if (open.length) open[open.length - 1].children.push(node);
+    else roots.push(node);
+    open.push(node);
+  }
+  return roots;
+}
+
+// Indented by heading level rather than tree depth, so skipped levels stay visible
+function renderOutline(headings: Heading[]): string {
+  return headings.map((h) => `${'  '.repeat(h.level - 1)}H${h.level} ${h.text || '(empty)'}`).join('\n');
+}
+
+export function auditHeadings(page: PageData): HeadingAudit {
+  const { headings } = page;
+  const skippedLevels: SkippedLevel[] = [];
+  for (let i = 1; i < headings.length; i++) {
+    const [previous, current] = [headings[i - 1], headings[i]];
+    if (current.level > previous.level + 1) {
+      skippedLevels.push({ from: previous.level, to: current.level, text: current.text });
+    }
+  }
+
+  const h1 = headings.filter((h) => h.level === 1).map((h) => h.text);
+  const title = page.title ? comparable(page.title) : null;
+
+  return {
+    outline: buildOutline(headings),
+    rendered: renderOutline(headings),
+    h1,
+    skippedLevels,
+    emptyLevels: headings.filter((h) => !h.text).map((h) => h.level),
+    h1MatchesTitle: title !== null && h1.some((text) => comparable(text) === title)
+  };
+}
+
+const ONE_H1_RECOMMENDATION: Recommendation = {
+  text: '🏗️ Give the page exactly one H1 that states its main topic',
+  priority: 'High'
+};
+
+export const HEADING_RULES: SeoRule[] = [
+  {
+    id: 'h1-missing',
+    category: 'headings',
+    severity: 'warning',
+    weight: 10,
+    message: 'No H1 heading - the page has no main heading',
+    recommendation: ONE_H1_RECOMMENDATION,
+    // Pages without any heading already fail headings-missing
+    check: ({ page, headings }) => headings && page.headings.length
+      ? { passed: headings.h1.length > 0 }
+      : null
+  },
+  {
+    id: 'h1-multiple',
+    category: 'headings',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} H1 headings compete for the main topic: {headings}',
+    recommendation: ONE_H1_RECOMMENDATION,
+    check: ({ headings }) => headings?.h1.length
+      ? {
+        passed: headings.h1.length === 1,
+        data: { count: headings.h1.length, headings: headings.h1.slice(0, LISTED_HEADINGS).map((t) => `"${t}"`).join(', ') }
+      }
+      : null
+  },
+  {
+    id: 'headings-skipped-level',
+    category: 'headings',
+    severity: 'warning',
+    weight: 5,
+    message: 'Heading levels are skipped: {skips}',
+    recommendation: { text: '🏗️ Nest headings in order (H1 → H2 → H3) without skipping levels', priority: 'Medium' },
+    check: ({ headings }) => {
+      if (!headings) return null;
+      const skips = headings.skippedLevels
+        .slice(0, LISTED_HEADINGS)
+        .map((s) => `H${s.from} → H${s.to} ("${s.text}")`);
+      return { passed: skips.length === 0, data: { count: headings.skippedLevels.length, skips: skips.join(', ') } };
+    }
+  },
+  {
+    id: 'headings-empty',
+    category: 'headings',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} headings have no text ({levels})',
+    recommendation: { text: '🏗️ Give every heading text, or replace empty headings with styling', priority: 'Medium' },
+    check: ({ headings }) => headings
+      ? {
+        passed: headings.emptyLevels.length === 0,
+        data: { count: headings.emptyLevels.length, levels: headings.emptyLevels.map((level) => `H${level}`).join(', ') }
+      }
+      : null
+  },
+  {
+    id: 'h1-duplicates-title',
+    category: 'headings',
+    severity: 'info',
+    weight: 0,
+    message: 'The H1 repeats the title tag word for word',
+    recommendation: { text: '🏗️ Word the H1 differently from the title to cover more of the topic', priority: 'Low' },
+    check: ({ page, headings }) => headings?.h1.length && page.title
+      ? { passed: !headings.h1MatchesTitle }
+      : null
+  }
+];
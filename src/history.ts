@@ -0,0 +1,413 @@
+import { insertFingerprint } from './duplicates';
+import { sha256Hex } from './hash';
+import { parsePage } from './parser';
+import { calculateSeoScore, evaluateRules, findSeoIssues, generateRecommendations } from './rules';
+import { saveSnapshot } from './snapshots';
+import { normalizeUrl } from './urls';
+import { clampInt } from './validation';
+import type { ContentAudit } from './content';
+import type { ContentFingerprint } from './duplicates';
+import type { AnalysisMode, LlmStatus } from './llm-review';
+import type { Recommendation, RuleResult, RuleSeverity } from './rules';
+import type { FetchMeta } from './fetcher';
+import type { IndexabilityAudit } from './indexability';
+import type { Bindings, Heading, PageData, StoredPage } from './types';
+
+// Stored analyses: structured issues per run, per-URL history and run-to-run diffs
+
+export interface StoredAnalysis {
+  // null when an llm-mode review failed
+  score: number | null;
+  issues: string[];
+  recommendations: Recommendation[];
+  rules: RuleResult[];
+  // Absent on rows saved before the field was recorded
+  mode?: AnalysisMode;
+  llmStatus?: LlmStatus;
+  content?: ContentAudit;
+  // Knowledge base sources retrieved for the analysis
+  sources?: string[];
+  fetch?: FetchMeta;
+  indexability?: IndexabilityAudit;
+  fingerprint?: ContentFingerprint;
+}
+
+export interface IssueRecord {
+  ruleId: string;
+  category: string;
+  severity: RuleSeverity;
+  weight: number;
+  message: string;
+}
+
+export interface AnalysisRecord {
+  id: number;
+  url: string;
+  score: number | null;
+  title: string | null;
+  metaDescription: string | null;
+  headings: Heading[];
+  issues: IssueRecord[];
+  recommendations: Recommendation[];
+  analysis: StoredAnalysis | null;
+  // SHA-256 of the analyzed HTML, the key of its snapshot
+  contentHash: string | null;
+  createdAt: string;
+}
+
+export interface HistoryQuery {
+  limit: number;
+  offset: number;
+  // D1 timestamps (UTC, 'YYYY-MM-DD HH:MM:SS'), both inclusive
+  from: string | null;
+  to: string | null;
+}
+
+interface AnalysisRow {
+  id: number;
+  url: string;
+  score: number | null;
+  title: string | null;
+  meta_description: string | null;
+  headings: string | null;
+  recommendations: string | null;
+  analysis_result: string | null;
+  content_hash: string | null;
+  created_at: string;
+}
+
+interface IssueRow {
+  rule_id: string;
+  category: string;
+  severity: RuleSeverity;
+  weight: number;
+  message: string;
+}
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+const BACKFILL_BATCH = 20;
+// New rows never need the backfill, so once a batch comes back short it stops for good
+const BACKFILL_DONE_KEY = 'backfill:analyses:done';
+
+function toIssueRows(rules: RuleResult[]): IssueRow[] {
+  return rules
+    .filter((r) => r.status === 'fail')
+    .map((r) => ({ rule_id: r.id, category: r.category, severity: r.severity, weight: r.weight, message: r.message ?? '' }));
+}
+
+function insertIssues(env: Bindings, analysisId: number, issues: IssueRow[]): D1PreparedStatement[] {
+  return issues.map((issue) => env.DB.prepare(
+    `INSERT INTO analysis_issues (analysis_id, rule_id, category, severity, weight, message)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).bind(analysisId, issue.rule_id, issue.category, issue.severity, issue.weight, issue.message));
+}
+
+export function withoutHtml(page: PageData | StoredPage): StoredPage {
+  const { html, ...rest } = page as PageData;
+  return rest;
+}
+
+// Save one analysis run with its failed rules as structured issue rows and its content
+// fingerprint. The page's HTML is not stored, only its content hash.
+export async function recordAnalysis(
+  env: Bindings,
+  url: string,
+  pageData: StoredPage,
+  analysis: StoredAnalysis,
+  projectId: number | null = null
+): Promise<number> {
+  const saved = await env.DB.prepare(
+    `INSERT INTO seo_analyses (url, analysis_data, score, recommendations, title, meta_description, headings, analysis_result, project_id, content_hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    url,
+    JSON.stringify(withoutHtml(pageData)),
+    analysis.score,
+    JSON.stringify(analysis.recommendations),
+    pageData.title,
+    pageData.metaDescription,
+    JSON.stringify(pageData.headings),
+    JSON.stringify(analysis),
+    projectId,
+    analysis.fetch?.contentHash ?? null
+  ).run();
+  const analysisId = saved.meta.last_row_id;
+
+  const statements = insertIssues(env, analysisId, toIssueRows(analysis.rules));
+  if (analysis.fingerprint) statements.push(insertFingerprint(env, analysisId, url, analysis.fingerprint, projectId));
+  if (statements.length) await env.DB.batch(statements);
+
+  return analysisId;
+}
+
+function toRecord(row: AnalysisRow, issues: IssueRow[]): AnalysisRecord {
+  return {
+    id: row.id,
+    url: row.url,
+    score: row.score,
+    title: row.title,
+    metaDescription: row.meta_description,
+    headings: JSON.parse(row.headings || '[]'),
+    issues: issues.map((i) => ({
+      ruleId: i.rule_id,
+      category: i.category,
+      severity: i.severity,
+      weight: i.weight,
+      message: i.message
+    })),
+    recommendations: JSON.parse(row.recommendations || '[]'),
+    analysis: row.analysis_result ? JSON.parse(row.analysis_result) : null,
+    contentHash: row.content_hash,
+    createdAt: row.created_at
+  };
+}
+
+// Lookups take the caller's project; null (the admin key) sees every project
+export async function getAnalysis(env: Bindings, id: number, projectId: number | null = null): Promise<AnalysisRecord | null> {
+  const row = await env.DB.prepare(
+    `SELECT id, url, score, title, meta_description, headings, recommendations, analysis_result, content_hash, created_at
+     FROM seo_analyses WHERE id = ?1 AND (?2 IS NULL OR project_id = ?2)`
+  ).bind(id, projectId).first<AnalysisRow>();
+  if (!row) return null;
+
+  const { results: issues } = await env.DB.prepare(
+    `SELECT rule_id, category, severity, weight, message FROM analysis_issues WHERE analysis_id = ? ORDER BY id`
+  ).bind(id).all<IssueRow>();
+
+  return toRecord(row, issues);
+}
+
+// Runs are stored under the normalized URL; older rows under the URL as it was submitted
+export async function getLatestAnalysis(env: Bindings, url: string, projectId: number | null = null): Promise<AnalysisRecord | null> {
+  const row = await env.DB.prepare(
+    `SELECT id FROM seo_analyses WHERE url IN (?1, ?2) AND (?3 IS NULL OR project_id = ?3)
+     ORDER BY created_at DESC, id DESC LIMIT 1`
+  ).bind(url, normalizeUrl(url), projectId).first<{ id: number }>();
+  return row ? getAnalysis(env, row.id) : null;
+}
+
+// The most recent analyses, newest first
+export async function listRecentAnalyses(env: Bindings, projectId: number | null = null, limit = 10) {
+  const { results } = await env.DB.prepare(
+    `SELECT id, url, score, title, created_at FROM seo_analyses
+     WHERE ?1 IS NULL OR project_id = ?1 ORDER BY created_at DESC LIMIT ?2`
+  ).bind(projectId, limit).all();
+  return results;
+}
+
+// The page data extracted when the analysis ran (rows saved before HTML was dropped still carry it)
+export async function getAnalysisPage(env: Bindings, id: number): Promise<StoredPage | null> {
+  const row = await env.DB.prepare('SELECT analysis_data FROM seo_analyses WHERE id = ?').bind(id).first<{ analysis_data: string }>();
+  return row ? withoutHtml(JSON.parse(row.analysis_data)) : null;
+}
+
+// Accepts ISO dates or datetimes; a date-only upper bound covers that whole day
+function toTimestamp(value: string, endOfDay: boolean): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return `${value} ${endOfDay ? '23:59:59' : '00:00:00'}`;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+export function normalizeHistoryQuery(input: Record<string, string | undefined>): HistoryQuery | { error: string } {
+  const from = input.from ? toTimestamp(input.from, false) : null;
+  const to = input.to ? toTimestamp(input.to, true) : null;
+  if (input.from && !from) return { error: '"from" must be an ISO date or datetime' };
+  if (input.to && !to) return { error: '"to" must be an ISO date or datetime' };
+
+  return {
+    limit: clampInt(input.limit, DEFAULT_HISTORY_LIMIT, 1, MAX_HISTORY_LIMIT),
+    offset: clampInt(input.offset, 0, 0, Number.MAX_SAFE_INTEGER),
+    from,
+    to
+  };
+}
+
+// Paged runs for one URL (newest first) plus score trend over the whole range
+export async function getUrlHistory(env: Bindings, url: string, query: HistoryQuery, projectId: number | null = null) {
+  const where = ['url IN (?, ?)'];
+  const params: unknown[] = [url, normalizeUrl(url)];
+  if (projectId !== null) {
+    where.push('project_id = ?');
+    params.push(projectId);
+  }
+  if (query.from) {
+    where.push('created_at >= ?');
+    params.push(query.from);
+  }
+  if (query.to) {
+    where.push('created_at <= ?');
+    params.push(query.to);
+  }
+  const filter = where.join(' AND ');
+
+  const summary = await env.DB.prepare(
+    `SELECT COUNT(*) AS total, AVG(score) AS average, MIN(score) AS min, MAX(score) AS max
+     FROM seo_analyses WHERE ${filter}`
+  ).bind(...params).first<{ total: number; average: number | null; min: number | null; max: number | null }>();
+
+  const ends = await env.DB.prepare(
+    `SELECT
+       (SELECT score FROM seo_analyses WHERE ${filter} AND score IS NOT NULL ORDER BY created_at ASC, id ASC LIMIT 1) AS first,
+       (SELECT score FROM seo_analyses WHERE ${filter} AND score IS NOT NULL ORDER BY created_at DESC, id DESC LIMIT 1) AS last`
+  ).bind(...params, ...params).first<{ first: number | null; last: number | null }>();
+
+  const { results } = await env.DB.prepare(
+    `SELECT a.id, a.score, a.title, a.created_at,
+       (SELECT COUNT(*) FROM analysis_issues i WHERE i.analysis_id = a.id) AS issue_count
+     FROM seo_analyses a WHERE ${filter}
+     ORDER BY a.created_at DESC, a.id DESC LIMIT ? OFFSET ?`
+  ).bind(...params, query.limit, query.offset).all<{
+    id: number;
+    score: number | null;
+    title: string | null;
+    created_at: string;
+    issue_count: number;
+  }>();
+
+  return {
+    url,
+    from: query.from,
+    to: query.to,
+    total: summary?.total ?? 0,
+    limit: query.limit,
+    offset: query.offset,
+    trend: {
+      firstScore: ends?.first ?? null,
+      lastScore: ends?.last ?? null,
+      change: ends?.first != null && ends?.last != null ? ends.last - ends.first : null,
+      averageScore: summary?.average != null ? Math.round(summary.average) : null,
+      minScore: summary?.min ?? null,
+      maxScore: summary?.max ?? null
+    },
+    items: results.map((r) => ({
+      id: r.id,
+      score: r.score,
+      title: r.title,
+      issueCount: r.issue_count,
+      createdAt: r.created_at
+    }))
+  };
+}
+
+function headingKey(heading: Heading): string {
+  return `h${heading.level}: ${heading.text}`;
+}
+
+// Headings present in `a` but not in `b`, counting repeats
+function missingHeadings(a: Heading[], b: Heading[]): Heading[] {
+  const remaining = new Map<string, number>();
+  for (const heading of b) remaining.set(headingKey(heading), (remaining.get(headingKey(heading)) ?? 0) + 1);
+  return a.filter((heading) => {
+    const count = remaining.get(headingKey(heading)) ?? 0;
+    if (count > 0) remaining.set(headingKey(heading), count - 1);
+    return count === 0;
+  });
+}
+
+function fieldChange<T>(before: T, after: T) {
+  return before === after ? null : { before, after };
+}
+
+// Compare two runs: `base` is the earlier state, `target` the one being compared against it
+export function diffAnalyses(base: AnalysisRecord, target: AnalysisRecord) {
+  const baseRules = new Map(base.issues.map((i) => [i.ruleId, i]));
+  const targetRules = new Map(target.issues.map((i) => [i.ruleId, i]));
+
+  return {
+    base: { id: base.id, url: base.url, score: base.score, createdAt: base.createdAt },
+    target: { id: target.id, url: target.url, score: target.score, createdAt: target.createdAt },
+    sameUrl: base.url === target.url,
+    scoreDelta: target.score !== null && base.score !== null ? target.score - base.score : null,
+    issues: {
+      resolved: base.issues.filter((i) => !targetRules.has(i.ruleId)),
+      introduced: target.issues.filter((i) => !baseRules.has(i.ruleId)),
+      unchanged: target.issues.filter((i) => baseRules.has(i.ruleId))
+    },
+    changes: {
+      title: fieldChange(base.title, target.title),
+      metaDescription: fieldChange(base.metaDescription, target.metaDescription),
+      headings: {
+        added: missingHeadings(target.headings, base.headings),
+        removed: missingHeadings(base.headings, target.headings)
+      }
+    }
+  };
+}
+
+// Migration step for rows saved before issues were stored, or before the HTML was dropped
+// from analysis_data: re-parse the stored HTML and record the page-level rule failures,
+// then replace the HTML with its content hash (and a snapshot, when R2 is bound). Runs a
+// small batch per cron tick until a tick finds nothing left.
+export async function backfillAnalyses(env: Bindings, limit = BACKFILL_BATCH): Promise<number> {
+  if (await env.CACHE.get(BACKFILL_DONE_KEY)) return 0;
+
+  const { results } = await env.DB.prepare(
+    `SELECT id, url, analysis_data, score, recommendations, analysis_result IS NULL AS needs_issues FROM seo_analyses
+     WHERE analysis_result IS NULL
+       OR (CASE WHEN json_valid(analysis_data) THEN json_type(analysis_data, '$.html') END) = 'text'
+     ORDER BY id LIMIT ?`
+  ).bind(limit).all<{
+    id: number;
+    url: string;
+    analysis_data: string;
+    score: number | null;
+    recommendations: string | null;
+    needs_issues: number;
+  }>();
+
+  for (const row of results) {
+    let stored: PageData | null = null;
+    let page: PageData | null = null;
+    try {
+      stored = JSON.parse(row.analysis_data);
+      if (row.needs_issues && typeof stored?.html === 'string') page = await parsePage(stored.html, stored.url ?? row.url);
+    } catch {
+      // Unreadable rows are still marked as migrated, with no issues
+    }
+
+    const statements: D1PreparedStatement[] = [];
+    if (typeof stored?.html === 'string') {
+      const contentHash = await sha256Hex(stored.html);
+      await saveSnapshot(env, contentHash, stored.html);
+      statements.push(env.DB.prepare(
+        `UPDATE seo_analyses SET analysis_data = ?, content_hash = COALESCE(content_hash, ?) WHERE id = ?`
+      ).bind(JSON.stringify(withoutHtml(stored)), contentHash, row.id));
+    }
+
+    if (row.needs_issues) {
+      // Score, issues and recommendations all come from the current registry so they agree
+      // with each other and with new runs; rows that can't be re-parsed keep their old score
+      const rules = page ? evaluateRules({ page }) : [];
+      const analysis = {
+        score: page ? calculateSeoScore(rules) : row.score,
+        issues: findSeoIssues(rules),
+        recommendations: page ? generateRecommendations(rules) : JSON.parse(row.recommendations || '[]'),
+        rules,
+        backfilled: true
+      };
+      statements.push(
+        env.DB.prepare(
+          `UPDATE seo_analyses SET title = ?, meta_description = ?, headings = ?, score = ?, recommendations = ?,
+             analysis_result = ? WHERE id = ?`
+        ).bind(
+          page?.title ?? null,
+          page?.metaDescription ?? null,
+          JSON.stringify(page?.headings ?? []),
+          analysis.score,
+          JSON.stringify(analysis.recommendations),
+          JSON.stringify(analysis),
+          row.id
+        ),
+        env.DB.prepare('DELETE FROM analysis_issues WHERE analysis_id = ?').bind(row.id),
+        ...insertIssues(env, row.id, toIssueRows(rules))
+      );
+    }
+
+    await env.DB.batch(statements);
+  }
+
+  if (results.length < limit) await env.CACHE.put(BACKFILL_DONE_KEY, new Date().toISOString());
+  return results.length;
+}
@@ -0,0 +1,337 @@
+import { mapWithConcurrency } from './async';
+import { FetchError, fetchPage, userAgentFor } from './fetcher';
+import { parseLinkHeader, parsePage } from './parser';
+import { fetchSitemapAlternates } from './sitemap';
+import { normalizeUrl, resolveUrl } from './urls';
+import type { FetchMeta } from './fetcher';
+import type { SeoRule } from './rules';
+import type { SitemapAlternate } from './sitemap';
+import type { Bindings, LinkTag, PageData } from './types';
+
+// hreflang annotations from the page, its Link header and the sitemap, validated and
+// cross-checked against each alternate page
+
+export type HreflangSource = 'html' | 'header' | 'sitemap';
+
+export interface HreflangAnnotation {
+  hreflang: string;
+  url: string;
+  source: HreflangSource;
+}
+
+export interface InvalidHreflang {
+  hreflang: string;
+  url: string;
+  reason: string;
+}
+
+export interface HreflangConflict {
+  hreflang: string;
+  urls: string[];
+}
+
+export interface AlternateCheck {
+  hreflang: string;
+  url: string;
+  status: number | null;
+  // Final URL when the alternate redirects
+  redirectsTo: string | null;
+  // The alternate annotates this page in return (HTML, Link header or sitemap)
+  returnLink: boolean;
+  canonical: string | null;
+  error: string | null;
+}
+
+export interface HreflangAudit {
+  annotations: HreflangAnnotation[];
+  invalid: InvalidHreflang[];
+  conflicts: HreflangConflict[];
+  selfReference: boolean;
+  xDefault: string | null;
+  alternates: AlternateCheck[];
+  // Alternates over the verification limit, or all of them when verification is off
+  unchecked: number;
+}
+
+export interface HreflangOptions {
+  // Sitemaps to read annotations from; none are fetched when empty
+  sitemaps?: string[];
+  // Fetch each alternate to confirm status, return link and canonical
+  verify?: boolean;
+}
+
+const MAX_ALTERNATE_CHECKS = 10;
+const CHECK_CONCURRENCY = 4;
+// Failure messages list at most this many URL pairs
+const LISTED_PAIRS = 3;
+
+// ISO 639-1 languages and ISO 3166-1 alpha-2 regions, the only codes search engines accept
+const LANGUAGES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et '
+  + 'eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl '
+  + 'km kn ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj '
+  + 'om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to '
+  + 'tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+const REGIONS = new Set((
+  'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt bv bw by bz ca cc cd cf '
+  + 'cg ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh er es et fi fj fk fm fo fr ga gb gd ge gf gg gh '
+  + 'gi gl gm gn gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn kp kr kw '
+  + 'ky kz la lb lc li lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng '
+  + 'ni nl no np nr nu nz om pa pe pf pg ph pk pl pm pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn '
+  + 'so sr ss st sv sx sy sz tc td tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws ye yt '
+  + 'za zm zw'
+).split(' '));
+
+// Frequent mistakes with the code search engines expect instead
+const REGION_FIXES: Record<string, string> = { uk: 'gb' };
+
+// Why a code is rejected, or null when it is valid
+function hreflangProblem(code: string): string | null {
+  if (code.toLowerCase() === 'x-default') return null;
+  if (code.includes('_')) return `use a hyphen, not an underscore (${code.replace(/_/g, '-')})`;
+
+  const [language, ...rest] = code.toLowerCase().split('-');
+  if (!LANGUAGES.has(language)) {
+    return REGIONS.has(language) ? `"${language}" is a region, not a language - add the language first` : `unknown language "${language}"`;
+  }
+  // An optional four-letter script (zh-Hant) may come before the region
+  const subtags = rest[0]?.length === 4 ? rest.slice(1) : rest;
+  if (subtags.length > 1) return 'too many subtags - use language or language-region';
+  const region = subtags[0];
+  if (region !== undefined && !REGIONS.has(region)) {
+    return REGION_FIXES[region] ? `unknown region "${region}" (use ${REGION_FIXES[region]})` : `unknown region "${region}"`;
+  }
+  return null;
+}
+
+function annotationsFrom(tags: LinkTag[], base: string, source: HreflangSource): HreflangAnnotation[] {
+  return tags
+    .filter((tag) => tag.rel.includes('alternate') && tag.hreflang)
+    .map((tag) => ({ hreflang: tag.hreflang, url: resolveUrl(tag.href, base), source }))
+    .filter((annotation) => annotation.url !== null);
+}
+
+function fromSitemap(alternates: SitemapAlternate[] | undefined, base: string): HreflangAnnotation[] {
+  return (alternates ?? [])
+    .map((alternate) => ({ hreflang: alternate.hreflang, url: resolveUrl(alternate.href, base), source: 'sitemap' as const }))
+    .filter((annotation) => annotation.url !== null);
+}
+
+function pointsTo(annotations: HreflangAnnotation[], url: string): boolean {
+  const target = normalizeUrl(url);
+  return annotations.some((annotation) => normalizeUrl(annotation.url) === target);
+}
+
+async function checkAlternate(
+  env: Bindings,
+  pageUrl: string,
+  annotation: HreflangAnnotation,
+  sitemapAlternates: Map<string, SitemapAlternate[]>
+): Promise<AlternateCheck> {
+  const check: AlternateCheck = {
+    hreflang: annotation.hreflang,
+    url: annotation.url,
+    status: null,
+    redirectsTo: null,
+    returnLink: false,
+    canonical: null,
+    error: null
+  };
+  const inSitemap = fromSitemap(sitemapAlternates.get(normalizeUrl(annotation.url)), annotation.url);
+
+  try {
+    const { html, meta } = await fetchPage(annotation.url, env);
+    check.status = meta.redirects.length ? meta.redirects[0].status : meta.status;
+    if (meta.redirects.length) check.redirectsTo = meta.finalUrl;
+
+    const alternate = await parsePage(html, meta.finalUrl);
+    const returned = [
+      ...annotationsFrom(alternate.linkTags, meta.finalUrl, 'html'),
+      ...annotationsFrom(parseLinkHeader(meta.link), meta.finalUrl, 'header'),
+      ...inSitemap
+    ];
+    check.returnLink = pointsTo(returned, pageUrl);
+    const canonical = alternate.linkTags.find((tag) => tag.rel.includes('canonical'))
+      ?? parseLinkHeader(meta.link).find((tag) => tag.rel.includes('canonical'));
+    check.canonical = canonical ? resolveUrl(canonical.href, meta.finalUrl) : null;
+  } catch (error) {
+    if (error instanceof FetchError) {
+      check.status = error.upstreamStatus;
+      check.error = error.message;
+    } else {
+      check.error = error instanceof Error ? error.message : 'Request failed';
+    }
+    // Without the page, the sitemap is the only place a return link can be confirmed
+    check.returnLink = pointsTo(inSitemap, pageUrl);
+  }
+  return check;
+}
+
+export async function auditHreflang(
+  page: PageData,
+  meta: FetchMeta,
+  env: Bindings,
+  options: HreflangOptions = {}
+): Promise<HreflangAudit> {
+  const sitemapAlternates = options.sitemaps?.length
+    ? await fetchSitemapAlternates(options.sitemaps, userAgentFor(env))
+    : new Map<string, SitemapAlternate[]>();
+
+  // The same code and URL from several sources counts once, keeping the first source
+  const seen = new Set<string>();
+  const annotations = [
+    ...annotationsFrom(page.linkTags, page.url, 'html'),
+    ...annotationsFrom(parseLinkHeader(meta.link ?? null), page.url, 'header'),
+    ...fromSitemap(sitemapAlternates.get(normalizeUrl(page.url)), page.url)
+  ].filter((annotation) => {
+    const key = `${annotation.hreflang.toLowerCase()} ${normalizeUrl(annotation.url)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const invalid = annotations
+    .map((annotation) => ({ hreflang: annotation.hreflang, url: annotation.url, reason: hreflangProblem(annotation.hreflang) }))
+    .filter((entry) => entry.reason !== null);
+
+  const byCode = new Map<string, string[]>();
+  for (const annotation of annotations) {
+    const code = annotation.hreflang.toLowerCase();
+    byCode.set(code, [...(byCode.get(code) ?? []), annotation.url]);
+  }
+  const conflicts = [...byCode.entries()]
+    .filter(([, urls]) => new Set(urls.map(normalizeUrl)).size > 1)
+    .map(([hreflang, urls]) => ({ hreflang, urls }));
+
+  // Each other page is fetched once, whichever codes point at it
+  const self = normalizeUrl(page.url);
+  const targets = new Map<string, HreflangAnnotation>();
+  for (const annotation of annotations) {
+    const key = normalizeUrl(annotation.url);
+    if (key !== self && !targets.has(key)) targets.set(key, annotation);
+  }
+  const toCheck = options.verify === false ? [] : [...targets.values()].slice(0, MAX_ALTERNATE_CHECKS);
+  const alternates = await mapWithConcurrency(toCheck, CHECK_CONCURRENCY, (annotation) =>
+    checkAlternate(env, page.url, annotation, sitemapAlternates));
+
+  return {
+    annotations,
+    invalid,
+    conflicts,
+    selfReference: pointsTo(annotations, page.url),
+    xDefault: annotations.find((a) => a.hreflang.toLowerCase() === 'x-default')?.url ?? null,
+    alternates,
+    unchecked: targets.size - toCheck.length
+  };
+}
+
+function listed(pairs: string[]): string {
+  const shown = pairs.slice(0, LISTED_PAIRS).join('; ');
+  return pairs.length > LISTED_PAIRS ? `${shown}; and ${pairs.length - LISTED_PAIRS} more` : shown;
+}
+
+export const HREFLANG_RULES: SeoRule[] = [
+  {
+    id: 'hreflang-invalid-code',
+    category: 'international',
+    severity: 'warning',
+    weight: 10,
+    message: '{count} hreflang annotations have invalid codes: {pairs}',
+    recommendation: { text: '🌐 Use ISO 639-1 language codes with optional ISO 3166-1 regions in hreflang, e.g. en-GB', priority: 'High' },
+    check: ({ hreflang }) => hreflang?.annotations.length
+      ? {
+        passed: hreflang.invalid.length === 0,
+        data: { count: hreflang.invalid.length, pairs: listed(hreflang.invalid.map((i) => `"${i.hreflang}" → ${i.url} (${i.reason})`)) }
+      }
+      : null
+  },
+  {
+    id: 'hreflang-conflict',
+    category: 'international',
+    severity: 'warning',
+    weight: 10,
+    message: 'hreflang codes point to more than one URL: {pairs}',
+    recommendation: { text: '🌐 Map each hreflang code to exactly one URL', priority: 'High' },
+    check: ({ hreflang }) => hreflang?.annotations.length
+      ? {
+        passed: hreflang.conflicts.length === 0,
+        data: { pairs: listed(hreflang.conflicts.map((c) => `"${c.hreflang}" → ${c.urls.join(' and ')}`)) }
+      }
+      : null
+  },
+  {
+    id: 'hreflang-missing-return',
+    category: 'international',
+    severity: 'warning',
+    weight: 10,
+    message: '{count} alternates do not link back with hreflang: {pairs}',
+    recommendation: { text: '🌐 Make hreflang reciprocal: every alternate must annotate all the others, itself included', priority: 'High' },
+    check: ({ page, hreflang }) => {
+      const reached = hreflang?.alternates.filter((a) => a.status === 200 || a.redirectsTo);
+      if (!reached?.length) return null;
+      const missing = reached.filter((a) => !a.returnLink);
+      return {
+        passed: missing.length === 0,
+        data: { count: missing.length, pairs: listed(missing.map((a) => `${a.url} (${a.hreflang}) has no return link to ${page.url}`)) }
+      };
+    }
+  },
+  {
+    id: 'hreflang-alternate-not-200',
+    category: 'international',
+    severity: 'warning',
+    weight: 10,
+    message: '{count} hreflang alternates do not answer 200: {pairs}',
+    recommendation: { text: '🌐 Point hreflang only at live, final (non-redirecting) URLs', priority: 'High' },
+    check: ({ page, hreflang }) => {
+      if (!hreflang?.alternates.length) return null;
+      const broken = hreflang.alternates.filter((a) => a.status !== 200 || a.redirectsTo);
+      const describe = (a: AlternateCheck) => a.redirectsTo
+        ? `${a.url} (${a.hreflang}) redirects to ${a.redirectsTo}`
+        : `${a.url} (${a.hreflang}) ${a.status ? `returns ${a.status}` : `failed: ${a.error}`}`;
+      return {
+        passed: broken.length === 0,
+        data: { count: broken.length, pairs: listed(broken.map((a) => `${page.url} → ${describe(a)}`)) }
+      };
+    }
+  },
+  {
+    id: 'hreflang-canonical-mismatch',
+    category: 'international',
+    severity: 'warning',
+    weight: 10,
+    message: '{count} hreflang alternates canonicalize elsewhere: {pairs}',
+    recommendation: { text: '🌐 Give every hreflang alternate a self-referencing canonical', priority: 'High' },
+    check: ({ hreflang }) => {
+      const fetched = hreflang?.alternates.filter((a) => a.status === 200 && !a.redirectsTo);
+      if (!fetched?.length) return null;
+      const mismatched = fetched.filter((a) => a.canonical && normalizeUrl(a.canonical) !== normalizeUrl(a.url));
+      return {
+        passed: mismatched.length === 0,
+        data: { count: mismatched.length, pairs: listed(mismatched.map((a) => `${a.url} (${a.hreflang}) → canonical ${a.canonical}`)) }
+      };
+    }
+  },
+  {
+    id: 'hreflang-no-self-reference',
+    category: 'international',
+    severity: 'warning',
+    weight: 5,
+    message: 'hreflang annotations do not include this page ({url}) itself',
+    recommendation: { text: '🌐 Include a self-referencing hreflang entry alongside the alternates', priority: 'Medium' },
+    check: ({ page, hreflang }) => hreflang?.annotations.length
+      ? { passed: hreflang.selfReference, data: { url: page.url } }
+      : null
+  },
+  {
+    id: 'hreflang-no-x-default',
+    category: 'international',
+    severity: 'info',
+    weight: 0,
+    message: 'No x-default hreflang for visitors whose language matches no alternate',
+    recommendation: { text: '🌐 Add an x-default hreflang pointing at the language selector or default page', priority: 'Low' },
+    check: ({ hreflang }) => hreflang?.annotations.length ? { passed: hreflang.xDefault !== null } : null
+  }
+];
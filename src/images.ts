@@ -0,0 +1,93 @@
+import { fetchPublic } from './fetcher';
+
+// Remote image probing: status, type and pixel dimensions from the first bytes of the file
+
+export interface ImageProbe {
+  url: string;
+  status: number | null;
+  contentType: string | null;
+  bytes: number | null;
+  format: 'png' | 'jpeg' | 'gif' | 'webp' | null;
+  width: number | null;
+  height: number | null;
+  error: string | null;
+}
+
+const MAX_PROBE_BYTES = 64 * 1024;
+const PROBE_TIMEOUT_MS = 10000;
+
+function readDimensions(data: Uint8Array): Pick<ImageProbe, 'format' | 'width' | 'height'> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const ascii = (start: number, length: number) => String.fromCharCode(...data.subarray(start, start + length));
+  const none = { format: null, width: null, height: null };
+
+  if (data.length >= 24 && data[0] === 0x89 && ascii(1, 3) === 'PNG') {
+    return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (data.length >= 10 && ascii(0, 4) === 'GIF8') {
+    return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  if (data.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const chunk = ascii(12, 4);
+    if (chunk === 'VP8 ') {
+      return { format: 'webp', width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const [b0, b1, b2, b3] = data.subarray(21, 25);
+      return {
+        format: 'webp',
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+      };
+    }
+    if (chunk === 'VP8X') {
+      const width = 1 + (data[24] | (data[25] << 8) | (data[26] << 16));
+      const height = 1 + (data[27] | (data[28] << 8) | (data[29] << 16));
+      return { format: 'webp', width, height };
+    }
+    return { ...none, format: 'webp' };
+  }
+
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    // Walk the JPEG segments until a start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = data[offset + 1];
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isFrame) {
+        return { format: 'jpeg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return { ...none, format: 'jpeg' };
+  }
+
+  return none;
+}
+
+export async function probeImage(url: string, userAgent: string): Promise<ImageProbe> {
+  const probe: ImageProbe = {
+    url, status: null, contentType: null, bytes: null, format: null, width: null, height: null, error: null
+  };
+
+  try {
+    const response = await fetchPublic(url, { userAgent, timeoutMs: PROBE_TIMEOUT_MS, maxBytes: MAX_PROBE_BYTES, truncate: true });
+    probe.status = response.status;
+    probe.contentType = response.headers.get('content-type');
+    const length = response.headers.get('content-length');
+    probe.bytes = length ? Number(length) : null;
+
+    if (!response.ok) return probe;
+
+    Object.assign(probe, readDimensions(response.body));
+  } catch (error) {
+    probe.error = error instanceof Error ? error.message : 'Request failed';
+  }
+  return probe;
+}
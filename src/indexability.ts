@@ -0,0 +1,383 @@
+import { checkLink } from './links';
+import { parseLinkHeader } from './parser';
+import { hostOf, normalizeUrl, resolveUrl } from './urls';
+import type { FetchMeta } from './fetcher';
+import type { LinkCheck } from './links';
+import type { Recommendation, SeoRule } from './rules';
+import type { PageData } from './types';
+
+// Can the page be indexed, and under which URL: status, robots directives from the
+// markup and headers, canonicals, and whether HTTPS is enforced. Only 2xx pages get
+// here; fetchPage fails on any other status with an http_error.
+
+export type DirectiveSource = 'meta' | 'header';
+
+export interface RobotsDirectives {
+  meta: string[];
+  // X-Robots-Tag directives addressed to every crawler or to Googlebot
+  header: string[];
+  noindex: DirectiveSource[];
+  nofollow: DirectiveSource[];
+}
+
+export interface DeclaredCanonical {
+  href: string;
+  url: string | null;
+  source: 'html' | 'header';
+  inHead: boolean;
+}
+
+export interface CanonicalAudit {
+  declared: DeclaredCanonical[];
+  // The first declared canonical, resolved against the page
+  url: string | null;
+  // Distinct canonical targets; more than one and search engines may ignore them all
+  targets: string[];
+  selfReferencing: boolean;
+  crossDomain: boolean;
+  relative: boolean;
+}
+
+export interface HttpsAudit {
+  https: boolean;
+  // What the http:// URL of an HTTPS page does; null when not checked
+  httpVersion: LinkCheck | null;
+  redirectsToHttps: boolean | null;
+  hsts: string | null;
+  hstsMaxAge: number | null;
+  // Scripts, stylesheets, icons and images requested over plain HTTP from an HTTPS page
+  mixedContent: string[];
+}
+
+export interface IndexabilityAudit {
+  status: number;
+  finalUrl: string;
+  redirects: number;
+  robots: RobotsDirectives;
+  canonical: CanonicalAudit;
+  lang: string | null;
+  https: HttpsAudit;
+}
+
+export interface IndexabilityOptions {
+  // Request the http:// URL to see whether it redirects to HTTPS
+  probeHttp?: boolean;
+  userAgent?: string;
+}
+
+const MIN_HSTS_MAX_AGE = 365 * 24 * 3600;
+
+// X-Robots-Tag directives that take a value, so "name:" doesn't start a user agent prefix
+const VALUE_DIRECTIVES = new Set(['max-snippet', 'max-image-preview', 'max-video-preview', 'unavailable_after']);
+
+// <link> relations whose target the browser loads as a subresource
+const SUBRESOURCE_RELS = ['stylesheet', 'icon', 'apple-touch-icon', 'preload', 'modulepreload', 'manifest'];
+
+const HTTPS_RECOMMENDATION: Recommendation = {
+  text: '🔒 Serve the page over HTTPS and 301-redirect the HTTP URL to it',
+  priority: 'Medium'
+};
+
+function isAbsolute(href: string): boolean {
+  return /^[a-z][a-z\d+.-]*:/i.test(href);
+}
+
+function splitDirectives(value: string): string[] {
+  return value.split(',').map((d) => d.trim().toLowerCase()).filter(Boolean);
+}
+
+// Directives may be scoped to one crawler ("googlebot: noindex"); the scope lasts until the next one
+function headerDirectives(value: string | null): string[] {
+  const directives: string[] = [];
+  let agent: string | null = null;
+  for (const token of splitDirectives(value ?? '')) {
+    const scoped = token.match(/^([\w-]+)\s*:\s*(.*)$/);
+    let directive = token;
+    if (scoped && !VALUE_DIRECTIVES.has(scoped[1])) {
+      agent = scoped[1];
+      directive = scoped[2];
+    }
+    if (directive && (agent === null || agent === 'googlebot')) directives.push(directive);
+  }
+  return directives;
+}
+
+function auditRobots(page: PageData, meta: FetchMeta): RobotsDirectives {
+  const tags = page.metaTags
+    .filter((tag) => tag.name === 'robots' || tag.name === 'googlebot')
+    .flatMap((tag) => splitDirectives(tag.content ?? ''));
+  const header = headerDirectives(meta.xRobotsTag ?? null);
+
+  const sources = (directive: string): DirectiveSource[] => {
+    const matches = (list: string[]) => list.some((d) => d === directive || d === 'none');
+    return [...(matches(tags) ? ['meta' as const] : []), ...(matches(header) ? ['header' as const] : [])];
+  };
+  return { meta: tags, header, noindex: sources('noindex'), nofollow: sources('nofollow') };
+}
+
+function auditCanonical(page: PageData, meta: FetchMeta): CanonicalAudit {
+  const declared: DeclaredCanonical[] = [
+    ...page.linkTags.filter((tag) => tag.rel.includes('canonical')).map((tag) => ({ ...tag, source: 'html' as const })),
+    ...parseLinkHeader(meta.link ?? null).filter((tag) => tag.rel.includes('canonical')).map((tag) => ({ ...tag, source: 'header' as const }))
+  ].map(({ href, source, inHead }) => ({ href, url: resolveUrl(href, page.url), source, inHead }));
+
+  const first = declared[0];
+  const url = first?.url ?? null;
+  let crossDomain = false;
+  try {
+    crossDomain = url !== null && hostOf(url) !== hostOf(page.url);
+  } catch {
+    // An unparseable canonical is neither self-referencing nor on another domain
+  }
+
+  return {
+    declared,
+    url,
+    targets: [...new Set(declared.map((c) => normalizeUrl(c.url ?? c.href)))],
+    selfReferencing: url !== null && normalizeUrl(url) === normalizeUrl(page.url),
+    crossDomain,
+    relative: declared.some((c) => !isAbsolute(c.href))
+  };
+}
+
+function mixedContent(page: PageData): string[] {
+  const sources = [
+    ...page.scripts.map((script) => script.src).filter(Boolean),
+    ...page.linkTags.filter((tag) => tag.rel.some((rel) => SUBRESOURCE_RELS.includes(rel))).map((tag) => tag.href),
+    ...page.images.map((image) => image.src).filter(Boolean)
+  ];
+  const urls = sources.map((src) => resolveUrl(src, page.url)).filter((url) => url?.startsWith('http:'));
+  return [...new Set(urls)];
+}
+
+function hstsMaxAge(value: string | null): number | null {
+  const match = value?.match(/max-age\s*=\s*"?(\d+)/i);
+  return match ? Number(match[1]) : null;
+}
+
+async function auditHttps(page: PageData, meta: FetchMeta, options: IndexabilityOptions): Promise<HttpsAudit> {
+  const https = page.url.startsWith('https:');
+  let httpVersion: LinkCheck | null = null;
+  if (https && options.probeHttp !== false) {
+    const httpUrl = new URL(page.url);
+    httpUrl.protocol = 'http:';
+    httpVersion = await checkLink(httpUrl.toString(), { maxHops: 3, userAgent: options.userAgent });
+  }
+
+  return {
+    https,
+    httpVersion,
+    redirectsToHttps: httpVersion ? Boolean(httpVersion.finalUrl?.startsWith('https:')) : null,
+    hsts: https ? meta.hsts ?? null : null,
+    hstsMaxAge: https ? hstsMaxAge(meta.hsts ?? null) : null,
+    mixedContent: https ? mixedContent(page) : []
+  };
+}
+
+export async function auditIndexability(
+  page: PageData,
+  meta: FetchMeta,
+  options: IndexabilityOptions = {}
+): Promise<IndexabilityAudit> {
+  return {
+    status: meta.status,
+    finalUrl: meta.finalUrl,
+    redirects: meta.redirects.length,
+    robots: auditRobots(page, meta),
+    canonical: auditCanonical(page, meta),
+    lang: page.lang,
+    https: await auditHttps(page, meta, options)
+  };
+}
+
+function describeSources(sources: DirectiveSource[]): string {
+  return sources.map((s) => (s === 'meta' ? 'a robots meta tag' : 'the X-Robots-Tag header')).join(' and ');
+}
+
+function describeHttpVersion(check: LinkCheck): string {
+  if (check.timedOut) return 'timed out';
+  if (check.loop) return 'is stuck in a redirect loop';
+  if (check.error) return `failed (${check.error})`;
+  if (check.redirects.length) return `redirects to ${check.finalUrl}`;
+  return `answers HTTP ${check.status}`;
+}
+
+// Blocking findings: these decide whether and under which URL the page is indexed, so the
+// registry puts them ahead of every other rule
+export const INDEXABILITY_RULES: SeoRule[] = [
+  {
+    id: 'noindex',
+    category: 'crawlability',
+    severity: 'critical',
+    weight: 40,
+    message: 'Page is excluded from search results by a noindex directive in {sources}',
+    recommendation: { text: '🚫 Remove the noindex directive if this page should appear in search results', priority: 'High' },
+    check: ({ indexability }) => indexability
+      ? { passed: indexability.robots.noindex.length === 0, data: { sources: describeSources(indexability.robots.noindex) } }
+      : null
+  },
+  {
+    id: 'canonical-multiple',
+    category: 'crawlability',
+    severity: 'critical',
+    weight: 20,
+    message: '{count} different canonical URLs are declared ({urls}) - search engines may ignore all of them',
+    recommendation: { text: '🔗 Declare exactly one canonical URL per page, in the <head> or the Link header', priority: 'High' },
+    check: ({ indexability }) => {
+      const canonical = indexability?.canonical;
+      if (!canonical?.declared.length) return null;
+      return { passed: canonical.targets.length <= 1, data: { count: canonical.targets.length, urls: canonical.targets.join(', ') } };
+    }
+  },
+  {
+    id: 'canonical-cross-domain',
+    category: 'crawlability',
+    severity: 'critical',
+    weight: 20,
+    message: 'Canonical points to another domain ({url}) - that site will be indexed instead of this page',
+    recommendation: { text: '🔗 Point the canonical at this page\'s own URL unless the page is syndicated from the other site', priority: 'High' },
+    check: ({ indexability }) => {
+      const canonical = indexability?.canonical;
+      if (!canonical?.url || canonical.targets.length > 1) return null;
+      return { passed: !canonical.crossDomain, data: { url: canonical.url } };
+    }
+  },
+  {
+    id: 'canonical-not-self',
+    category: 'crawlability',
+    severity: 'critical',
+    weight: 20,
+    message: 'Canonical points to {url}, not to this page - search engines will index that URL instead',
+    recommendation: { text: '🔗 Make the canonical self-referencing unless this page duplicates the one it points to', priority: 'High' },
+    check: ({ indexability }) => {
+      const canonical = indexability?.canonical;
+      if (!canonical?.url || canonical.targets.length > 1 || canonical.crossDomain) return null;
+      return { passed: canonical.selfReferencing, data: { url: canonical.url } };
+    }
+  },
+  {
+    id: 'canonical-outside-head',
+    category: 'crawlability',
+    severity: 'warning',
+    weight: 10,
+    message: 'The canonical link to {url} is outside <head>, where search engines ignore it',
+    recommendation: { text: '🔗 Move the canonical <link> into the <head>', priority: 'High' },
+    check: ({ indexability }) => {
+      if (!indexability?.canonical.declared.length) return null;
+      const misplaced = indexability.canonical.declared.filter((c) => c.source === 'html' && !c.inHead);
+      return { passed: misplaced.length === 0, data: { url: misplaced[0]?.url ?? '' } };
+    }
+  },
+  {
+    id: 'nofollow-page',
+    category: 'crawlability',
+    severity: 'warning',
+    weight: 10,
+    message: 'A nofollow directive in {sources} stops search engines following any link on this page',
+    recommendation: { text: '🚫 Drop the page-level nofollow and mark individual links rel="nofollow" instead', priority: 'Medium' },
+    check: ({ indexability }) => indexability
+      ? { passed: indexability.robots.nofollow.length === 0, data: { sources: describeSources(indexability.robots.nofollow) } }
+      : null
+  },
+  {
+    id: 'canonical-relative',
+    category: 'crawlability',
+    severity: 'warning',
+    weight: 5,
+    message: 'Canonical uses a relative URL ({href})',
+    recommendation: { text: '🔗 Use an absolute URL, including the scheme and host, in the canonical', priority: 'Low' },
+    check: ({ indexability }) => {
+      const canonical = indexability?.canonical;
+      if (!canonical?.declared.length) return null;
+      const relative = canonical.declared.find((c) => !isAbsolute(c.href));
+      return { passed: !canonical.relative, data: { href: relative?.href ?? '' } };
+    }
+  },
+  {
+    id: 'canonical-missing',
+    category: 'crawlability',
+    severity: 'info',
+    weight: 0,
+    message: 'No canonical URL is declared',
+    recommendation: { text: '🔗 Add a self-referencing canonical so duplicate URLs consolidate to this one', priority: 'Low' },
+    check: ({ indexability }) => indexability ? { passed: indexability.canonical.declared.length > 0 } : null
+  },
+  {
+    id: 'url-redirects',
+    category: 'crawlability',
+    severity: 'info',
+    weight: 0,
+    message: 'The requested URL redirects {count} times before reaching {url}',
+    recommendation: { text: '🔗 Link to final URLs directly rather than through redirects', priority: 'Low' },
+    check: ({ indexability }) => indexability
+      ? { passed: indexability.redirects === 0, data: { count: indexability.redirects, url: indexability.finalUrl } }
+      : null
+  }
+];
+
+export const HTTPS_RULES: SeoRule[] = [
+  {
+    id: 'https-missing',
+    category: 'security',
+    severity: 'warning',
+    weight: 10,
+    message: 'Page is not served over HTTPS',
+    recommendation: HTTPS_RECOMMENDATION,
+    check: ({ page }) => ({ passed: page.url.startsWith('https://') })
+  },
+  {
+    id: 'http-not-redirected',
+    category: 'security',
+    severity: 'warning',
+    weight: 10,
+    message: 'The HTTP URL {url} {outcome} instead of redirecting to HTTPS',
+    recommendation: HTTPS_RECOMMENDATION,
+    check: ({ indexability }) => {
+      const check = indexability?.https.httpVersion;
+      if (!check) return null;
+      return { passed: indexability.https.redirectsToHttps, data: { url: check.url, outcome: describeHttpVersion(check) } };
+    }
+  },
+  {
+    id: 'http-redirect-temporary',
+    category: 'security',
+    severity: 'warning',
+    weight: 5,
+    message: 'The HTTP URL redirects to HTTPS with a temporary {status}',
+    recommendation: { text: '🔒 Make the HTTP to HTTPS redirect permanent (301 or 308)', priority: 'Low' },
+    check: ({ indexability }) => {
+      const first = indexability?.https.httpVersion?.redirects[0];
+      if (!indexability?.https.redirectsToHttps || !first) return null;
+      return { passed: first.status === 301 || first.status === 308, data: { status: first.status } };
+    }
+  },
+  {
+    id: 'hsts-missing',
+    category: 'security',
+    severity: 'warning',
+    weight: 5,
+    message: 'HSTS is not enforced: {detail}',
+    recommendation: { text: '🔒 Send Strict-Transport-Security with a max-age of at least one year', priority: 'Low' },
+    check: ({ indexability }) => {
+      if (!indexability?.https.https) return null;
+      const { hsts, hstsMaxAge: maxAge } = indexability.https;
+      const detail = hsts === null
+        ? 'no Strict-Transport-Security header'
+        : `max-age=${maxAge ?? 'missing'} is under a year`;
+      return { passed: maxAge !== null && maxAge >= MIN_HSTS_MAX_AGE, data: { detail } };
+    }
+  },
+  {
+    id: 'mixed-content',
+    category: 'security',
+    severity: 'critical',
+    weight: 15,
+    message: '{count} resources on this HTTPS page load over HTTP: {urls}',
+    recommendation: { text: '🔒 Load every script, stylesheet and image over HTTPS', priority: 'High' },
+    check: ({ indexability }) => {
+      if (!indexability?.https.https) return null;
+      const urls = indexability.https.mixedContent;
+      return { passed: urls.length === 0, data: { count: urls.length, urls: urls.slice(0, 5).join(', ') } };
+    }
+  }
+];
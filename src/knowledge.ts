@@ -0,0 +1,277 @@
+import { sha256Hex } from './hash';
+import type { Bindings } from './types';
+
+// Knowledge base documents: chunked, embedded and upserted into Vectorize under
+// content-hash ids, with document metadata tracked in D1
+
+export const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+
+export type DocumentFormat = 'markdown' | 'text';
+
+export interface KnowledgeInput {
+  id: string;
+  title: string;
+  content: string;
+  format: DocumentFormat;
+  category: string;
+  source: string;
+  version: string;
+}
+
+export interface IngestResult {
+  id: string;
+  status: 'created' | 'updated' | 'unchanged';
+  chunks: number;
+  removedChunks: number;
+}
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  format: DocumentFormat;
+  category: string;
+  source: string;
+  version: string;
+  content: string;
+  content_hash: string;
+  chunk_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+const MAX_CONTENT_CHARS = 200000;
+const MAX_CHUNK_CHARS = 1000;
+const CHUNK_OVERLAP_CHARS = 200;
+const EMBEDDING_BATCH = 20;
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64);
+}
+
+export function normalizeKnowledgeInput(input: Record<string, unknown>): KnowledgeInput | { error: string } {
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  const content = typeof input.content === 'string' ? input.content.trim() : '';
+  if (!title) return { error: 'title is required' };
+  if (!content) return { error: 'content is required' };
+  if (content.length > MAX_CONTENT_CHARS) return { error: `content must be at most ${MAX_CONTENT_CHARS} characters` };
+  if (input.format !== undefined && input.format !== 'markdown' && input.format !== 'text') {
+    return { error: 'format must be "markdown" or "text"' };
+  }
+
+  const id = typeof input.id === 'string' && input.id.trim() ? slugify(input.id) : slugify(title);
+  if (!id) return { error: 'id must contain letters or digits' };
+
+  return {
+    id,
+    title,
+    content,
+    format: input.format ?? 'markdown',
+    category: typeof input.category === 'string' && input.category.trim() ? input.category.trim() : 'general',
+    source: typeof input.source === 'string' && input.source.trim() ? input.source.trim() : 'Unknown',
+    version: input.version !== undefined ? String(input.version) : '1'
+  } as KnowledgeInput;
+}
+
+// Markdown is reduced to its text so emphasis, links and code fences don't pollute the embeddings
+function plainText(content: string, format: DocumentFormat): string {
+  if (format === 'text') return content;
+  return content
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(\S[^\n]*?)\1/g, '$2');
+}
+
+// Split into sentences and block lines, breaking overlong ones at word boundaries
+function segments(text: string): string[] {
+  const pieces = text
+    .split(/\n\s*\n|\n(?=\S)/)
+    .flatMap((block) => block.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s+/))
+    .filter(Boolean);
+
+  return pieces.flatMap((piece) => {
+    if (piece.length <= MAX_CHUNK_CHARS) return [piece];
+    const words = piece.split(' ');
+    const parts: string[] = [];
+    let current = '';
+    for (const word of words) {
+      if (current && current.length + word.length + 1 > MAX_CHUNK_CHARS) {
+        parts.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) parts.push(current);
+    return parts;
+  });
+}
+
+// Pack segments into chunks; each chunk starts with the tail of the previous one
+export function chunkText(content: string, format: DocumentFormat = 'text'): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const segment of segments(plainText(content, format))) {
+    if (current.length && length + segment.length + 1 > MAX_CHUNK_CHARS) {
+      chunks.push(current.join(' '));
+
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length > CHUNK_OVERLAP_CHARS) break;
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length + 1;
+      }
+      current = overlap;
+      length = overlapLength;
+    }
+    current.push(segment);
+    length += segment.length + 1;
+  }
+  if (current.length) chunks.push(current.join(' '));
+
+  return chunks;
+}
+
+async function embed(env: Bindings, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+    const embedding = await env.AI.run(EMBEDDING_MODEL, { text: texts.slice(i, i + EMBEDDING_BATCH) });
+    vectors.push(...embedding.data);
+  }
+  return vectors;
+}
+
+// Chunk, embed and upsert one document. Unchanged documents are skipped unless
+// `reembed` is set, and chunks that no longer exist are deleted from the index.
+export async function ingestDocument(env: Bindings, doc: KnowledgeInput, reembed = false): Promise<IngestResult> {
+  const contentHash = await sha256Hex(JSON.stringify([doc.title, doc.format, doc.category, doc.source, doc.version, doc.content]));
+  const existing = await env.DB.prepare(
+    'SELECT content_hash, chunk_count FROM knowledge_documents WHERE id = ?'
+  ).bind(doc.id).first<{ content_hash: string; chunk_count: number }>();
+
+  if (existing && existing.content_hash === contentHash && !reembed) {
+    return { id: doc.id, status: 'unchanged', chunks: existing.chunk_count, removedChunks: 0 };
+  }
+
+  // Identical chunks collapse onto one id
+  const texts = [...new Set(chunkText(doc.content, doc.format))];
+  const ids = await Promise.all(texts.map((text) => sha256Hex(`${doc.id}\n${text}`)));
+  const values = await embed(env, texts);
+
+  await env.VECTORIZE.upsert(texts.map((text, index) => ({
+    id: ids[index],
+    values: values[index],
+    metadata: {
+      documentId: doc.id,
+      title: doc.title,
+      category: doc.category,
+      source: doc.source,
+      version: doc.version,
+      chunk: index,
+      text
+    }
+  })));
+
+  const { results: previous } = await env.DB.prepare(
+    'SELECT id FROM knowledge_chunks WHERE document_id = ?'
+  ).bind(doc.id).all<{ id: string }>();
+  const stale = previous.map((r) => r.id).filter((id) => !ids.includes(id));
+  if (stale.length) await env.VECTORIZE.deleteByIds(stale);
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO knowledge_documents (id, title, format, category, source, version, content, content_hash, chunk_count)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET title = excluded.title, format = excluded.format, category = excluded.category,
+         source = excluded.source, version = excluded.version, content = excluded.content,
+         content_hash = excluded.content_hash, chunk_count = excluded.chunk_count, updated_at = CURRENT_TIMESTAMP`
+    ).bind(doc.id, doc.title, doc.format, doc.category, doc.source, doc.version, doc.content, contentHash, texts.length),
+    env.DB.prepare('DELETE FROM knowledge_chunks WHERE document_id = ?').bind(doc.id),
+    ...texts.map((text, index) => env.DB.prepare(
+      'INSERT INTO knowledge_chunks (id, document_id, chunk_index, text) VALUES (?, ?, ?, ?)'
+    ).bind(ids[index], doc.id, index, text))
+  ]);
+
+  return { id: doc.id, status: existing ? 'updated' : 'created', chunks: texts.length, removedChunks: stale.length };
+}
+
+function toDocument(row: Omit<DocumentRow, 'content'>) {
+  return {
+    id: row.id,
+    title: row.title,
+    format: row.format,
+    category: row.category,
+    source: row.source,
+    version: row.version,
+    contentHash: row.content_hash,
+    chunks: row.chunk_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function listDocuments(env: Bindings, filter: { category?: string; source?: string } = {}) {
+  const { results } = await env.DB.prepare(
+    `SELECT id, title, format, category, source, version, content_hash, chunk_count, created_at, updated_at
+     FROM knowledge_documents
+     WHERE (?1 IS NULL OR category = ?1) AND (?2 IS NULL OR source = ?2)
+     ORDER BY category, id`
+  ).bind(filter.category ?? null, filter.source ?? null).all<Omit<DocumentRow, 'content'>>();
+  return results.map(toDocument);
+}
+
+export async function getDocument(env: Bindings, id: string) {
+  const row = await env.DB.prepare('SELECT * FROM knowledge_documents WHERE id = ?').bind(id).first<DocumentRow>();
+  if (!row) return null;
+
+  const { results: chunks } = await env.DB.prepare(
+    'SELECT id, chunk_index, text FROM knowledge_chunks WHERE document_id = ? ORDER BY chunk_index'
+  ).bind(id).all<{ id: string; chunk_index: number; text: string }>();
+
+  return {
+    ...toDocument(row),
+    content: row.content,
+    chunkList: chunks.map((c) => ({ id: c.id, index: c.chunk_index, text: c.text }))
+  };
+}
+
+// Remove documents and their vectors; returns the ids that were deleted
+export async function deleteDocuments(env: Bindings, ids: string[]): Promise<string[]> {
+  const deleted: string[] = [];
+  for (const id of ids) {
+    const { results: chunks } = await env.DB.prepare(
+      'SELECT id FROM knowledge_chunks WHERE document_id = ?'
+    ).bind(id).all<{ id: string }>();
+    if (chunks.length) await env.VECTORIZE.deleteByIds(chunks.map((c) => c.id));
+
+    const [removed] = await env.DB.batch([
+      env.DB.prepare('DELETE FROM knowledge_documents WHERE id = ?').bind(id),
+      env.DB.prepare('DELETE FROM knowledge_chunks WHERE document_id = ?').bind(id)
+    ]);
+    if (removed.meta.changes) deleted.push(id);
+  }
+  return deleted;
+}
+
+// Re-embed stored documents from their D1 copy, e.g. after switching embedding models
+export async function reembedDocuments(env: Bindings, ids?: string[]): Promise<IngestResult[]> {
+  const { results } = await env.DB.prepare('SELECT * FROM knowledge_documents ORDER BY id').all<DocumentRow>();
+  const selected = ids ? results.filter((row) => ids.includes(row.id)) : results;
+
+  const ingested: IngestResult[] = [];
+  for (const row of selected) {
+    ingested.push(await ingestDocument(env, {
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      format: row.format,
+      category: row.category,
+      source: row.source,
+      version: row.version
+    }, true));
+  }
+  return ingested;
+}
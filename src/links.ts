@@ -0,0 +1,270 @@
+import { mapWithConcurrency } from './async';
+import { DEFAULT_USER_AGENT, assertPublicUrl } from './fetcher';
+import { resolveUrl, stripHash } from './urls';
+import type { SeoRule } from './rules';
+import type { PageData } from './types';
+
+// Link classification and broken link / redirect checking
+
+export type LinkKind = 'internal' | 'external' | 'anchor' | 'mailto' | 'tel' | 'javascript' | 'invalid';
+
+export interface ClassifiedLink {
+  href: string;
+  url: string | null;
+  text: string;
+  kind: LinkKind;
+  nofollow: boolean;
+  sponsored: boolean;
+  ugc: boolean;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string | null;
+}
+
+export interface LinkCheck {
+  url: string;
+  status: number | null;
+  finalUrl: string | null;
+  redirects: RedirectHop[];
+  loop: boolean;
+  timedOut: boolean;
+  error: string | null;
+}
+
+export interface LinkAudit {
+  total: number;
+  counts: Record<LinkKind, number>;
+  nofollow: number;
+  sponsored: number;
+  ugc: number;
+  items: ClassifiedLink[];
+  checks: LinkCheck[];
+  unchecked: number;
+}
+
+export interface LinkCheckOptions {
+  maxTargets?: number;
+  concurrency?: number;
+  timeoutMs?: number;
+  maxHops?: number;
+  userAgent?: string;
+}
+
+const DEFAULT_CHECK_OPTIONS: Required<LinkCheckOptions> = {
+  maxTargets: 25,
+  concurrency: 6,
+  timeoutMs: 8000,
+  maxHops: 5,
+  userAgent: DEFAULT_USER_AGENT
+};
+
+function siteHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+export function classifyLinks(page: PageData): ClassifiedLink[] {
+  const pageHost = siteHost(new URL(page.url).hostname);
+  const pageWithoutHash = stripHash(page.url);
+
+  return page.links.map((link) => {
+    const href = link.href.trim();
+    const url = resolveUrl(href, page.url);
+    let kind: LinkKind;
+
+    if (href.startsWith('#')) {
+      kind = 'anchor';
+    } else if (!url) {
+      kind = 'invalid';
+    } else {
+      const parsed = new URL(url);
+      if (parsed.protocol === 'mailto:') kind = 'mailto';
+      else if (parsed.protocol === 'tel:') kind = 'tel';
+      else if (parsed.protocol === 'javascript:') kind = 'javascript';
+      else if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') kind = 'invalid';
+      else if (parsed.hash && stripHash(url) === pageWithoutHash) kind = 'anchor';
+      else kind = siteHost(parsed.hostname) === pageHost ? 'internal' : 'external';
+    }
+
+    return {
+      href: link.href,
+      url,
+      text: link.text,
+      kind,
+      nofollow: link.rel.includes('nofollow'),
+      sponsored: link.rel.includes('sponsored'),
+      ugc: link.rel.includes('ugc')
+    };
+  });
+}
+
+async function fetchWithTimeout(url: string, method: string, userAgent: string, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { method, redirect: 'manual', signal: controller.signal, headers: { 'User-Agent': userAgent } });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Follow redirects by hand so every hop, loop and timeout is visible
+export async function checkLink(url: string, options: LinkCheckOptions = {}): Promise<LinkCheck> {
+  const { timeoutMs, maxHops, userAgent } = { ...DEFAULT_CHECK_OPTIONS, ...options };
+  const check: LinkCheck = { url, status: null, finalUrl: null, redirects: [], loop: false, timedOut: false, error: null };
+  const visited = new Set<string>();
+  let current = url;
+
+  try {
+    for (let hop = 0; hop <= maxHops; hop++) {
+      if (visited.has(current)) {
+        check.loop = true;
+        return check;
+      }
+      visited.add(current);
+      // Links on an analyzed page are untrusted too
+      assertPublicUrl(current);
+
+      let response = await fetchWithTimeout(current, 'HEAD', userAgent, timeoutMs);
+      // Some servers refuse HEAD; retry those with GET
+      if (response.status === 405 || response.status === 501) {
+        await response.body?.cancel();
+        response = await fetchWithTimeout(current, 'GET', userAgent, timeoutMs);
+      }
+      // Only the status and headers are used; an unread body would hold its connection open
+      await response.body?.cancel();
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        check.redirects.push({ url: current, status: response.status, location });
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      check.status = response.status;
+      check.finalUrl = current;
+      return check;
+    }
+    check.error = `Too many redirects (more than ${maxHops})`;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      check.timedOut = true;
+    } else {
+      check.error = error instanceof Error ? error.message : 'Request failed';
+    }
+  }
+  return check;
+}
+
+export async function auditLinks(page: PageData, options: LinkCheckOptions = {}): Promise<LinkAudit> {
+  const { maxTargets, concurrency } = { ...DEFAULT_CHECK_OPTIONS, ...options };
+  const items = classifyLinks(page);
+
+  const counts: Record<LinkKind, number> = {
+    internal: 0, external: 0, anchor: 0, mailto: 0, tel: 0, javascript: 0, invalid: 0
+  };
+  for (const item of items) counts[item.kind]++;
+
+  const targets = [...new Set(
+    items
+      .filter((item) => item.kind === 'internal' || item.kind === 'external')
+      .map((item) => stripHash(item.url))
+  )];
+  const checked = targets.slice(0, maxTargets);
+  const checks = await mapWithConcurrency(checked, concurrency, (url) => checkLink(url, options));
+
+  return {
+    total: items.length,
+    counts,
+    nofollow: items.filter((i) => i.nofollow).length,
+    sponsored: items.filter((i) => i.sponsored).length,
+    ugc: items.filter((i) => i.ugc).length,
+    items,
+    checks,
+    unchecked: targets.length - checked.length
+  };
+}
+
+function listUrls(checks: LinkCheck[], describe: (check: LinkCheck) => string): string {
+  return checks.slice(0, 10).map(describe).join('; ');
+}
+
+export const LINK_RULES: SeoRule[] = [
+  {
+    id: 'links-too-few',
+    category: 'links',
+    severity: 'warning',
+    weight: 10,
+    message: 'Low number of internal links ({count}) - improve site structure with more linking',
+    recommendation: { text: '🔗 Add 3-5 internal links to relevant pages to improve site structure', priority: 'Medium' },
+    check: ({ page, links }) => {
+      const internal = links ? links.counts.internal : classifyLinks(page).filter((l) => l.kind === 'internal').length;
+      return { passed: internal >= 3, data: { count: internal } };
+    }
+  },
+  {
+    id: 'links-broken',
+    category: 'links',
+    severity: 'critical',
+    weight: 10,
+    message: '{count} links point to broken targets: {targets}',
+    recommendation: { text: '🔗 Fix or remove links that return 4xx/5xx errors', priority: 'High' },
+    check: ({ links }) => {
+      if (!links) return null;
+      const broken = links.checks.filter((c) => c.status !== null && c.status >= 400);
+      return {
+        passed: broken.length === 0,
+        data: { count: broken.length, targets: listUrls(broken, (c) => `${c.url} (${c.status})`) }
+      };
+    }
+  },
+  {
+    id: 'links-unreachable',
+    category: 'links',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} link targets timed out, loop or failed to load: {targets}',
+    recommendation: { text: '🔗 Investigate link targets that time out or redirect in a loop', priority: 'Medium' },
+    check: ({ links }) => {
+      if (!links) return null;
+      const failing = links.checks.filter((c) => c.loop || c.timedOut || c.error);
+      return {
+        passed: failing.length === 0,
+        data: {
+          count: failing.length,
+          targets: listUrls(failing, (c) => `${c.url} (${c.loop ? 'redirect loop' : c.timedOut ? 'timeout' : c.error})`)
+        }
+      };
+    }
+  },
+  {
+    id: 'links-redirect-chain',
+    category: 'links',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} links go through redirect chains longer than one hop: {targets}',
+    recommendation: { text: '🔗 Point links directly at their final URL instead of through redirect chains', priority: 'Medium' },
+    check: ({ links }) => {
+      if (!links) return null;
+      const chained = links.checks.filter((c) => !c.loop && c.redirects.length > 1);
+      return {
+        passed: chained.length === 0,
+        data: { count: chained.length, targets: listUrls(chained, (c) => `${c.url} (${c.redirects.length} hops)`) }
+      };
+    }
+  },
+  {
+    id: 'links-internal-nofollow',
+    category: 'links',
+    severity: 'info',
+    weight: 0,
+    message: '{count} internal links are marked nofollow - this wastes internal link equity',
+    check: ({ links }) => {
+      if (!links) return null;
+      const count = links.items.filter((i) => i.kind === 'internal' && i.nofollow).length;
+      return { passed: count === 0, data: { count } };
+    }
+  }
+];
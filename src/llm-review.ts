@@ -0,0 +1,234 @@
+import { CHAT_MODEL } from './chat';
+import type { ContentAudit } from './content';
+import type { Priority, Recommendation, RuleResult } from './rules';
+import type { Bindings, PageData } from './types';
+
+// LLM page review: a strict JSON contract with the model, repaired or retried when
+// the output doesn't match, and an explicit status instead of made-up results
+
+export type AnalysisMode = 'rules' | 'llm' | 'hybrid';
+
+// ok: valid on the first try; repaired: valid after local repair or a retry;
+// invalid: never matched the schema; error: the model call failed; skipped: rules mode
+export type LlmStatus = 'ok' | 'repaired' | 'invalid' | 'error' | 'skipped';
+
+export interface LlmReview {
+  status: LlmStatus;
+  model: string | null;
+  attempts: number;
+  // Validation or call errors from the last failed attempt
+  errors: string[];
+  // Only in llm mode, and only when the output was valid
+  score: number | null;
+  issues: string[];
+  recommendations: Recommendation[];
+}
+
+interface ReviewOutput {
+  score?: number;
+  issues?: string[];
+  recommendations: Recommendation[];
+}
+
+export const ANALYSIS_MODES: AnalysisMode[] = ['rules', 'llm', 'hybrid'];
+
+const MAX_ATTEMPTS = 3;
+const MAX_ITEMS = 10;
+const MAX_ITEM_CHARS = 400;
+const PRIORITIES: Priority[] = ['High', 'Medium', 'Low'];
+
+const RECOMMENDATION_SCHEMA = {
+  type: 'array',
+  maxItems: MAX_ITEMS,
+  items: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', maxLength: MAX_ITEM_CHARS },
+      priority: { enum: PRIORITIES }
+    },
+    required: ['text', 'priority'],
+    additionalProperties: false
+  }
+};
+
+// llm mode: the model scores the page on its own
+const LLM_SCHEMA = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 0, maximum: 100 },
+    issues: { type: 'array', maxItems: MAX_ITEMS, items: { type: 'string', maxLength: MAX_ITEM_CHARS } },
+    recommendations: RECOMMENDATION_SCHEMA
+  },
+  required: ['score', 'issues', 'recommendations'],
+  additionalProperties: false
+};
+
+// hybrid mode: the rules own the score and issues, the model only adds recommendations
+const HYBRID_SCHEMA = {
+  type: 'object',
+  properties: { recommendations: RECOMMENDATION_SCHEMA },
+  required: ['recommendations'],
+  additionalProperties: false
+};
+
+const SKIPPED: LlmReview = {
+  status: 'skipped',
+  model: null,
+  attempts: 0,
+  errors: [],
+  score: null,
+  issues: [],
+  recommendations: []
+};
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_ITEM_CHARS;
+}
+
+function unexpectedKeys(value: Record<string, unknown>, allowed: string[], path: string): string[] {
+  return Object.keys(value).filter((key) => !allowed.includes(key)).map((key) => `${path}.${key} is not allowed`);
+}
+
+// Returns the list of schema violations; empty means valid
+export function validateReview(value: unknown, mode: AnalysisMode): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ['output must be a JSON object'];
+  const output = value as Record<string, unknown>;
+  const errors = unexpectedKeys(output, mode === 'llm' ? ['score', 'issues', 'recommendations'] : ['recommendations'], '$');
+
+  if (mode === 'llm') {
+    if (!Number.isInteger(output.score) || (output.score as number) < 0 || (output.score as number) > 100) {
+      errors.push('$.score must be an integer from 0 to 100');
+    }
+    if (!Array.isArray(output.issues) || output.issues.length > MAX_ITEMS || !output.issues.every(isText)) {
+      errors.push(`$.issues must be an array of at most ${MAX_ITEMS} non-empty strings`);
+    }
+  }
+
+  if (!Array.isArray(output.recommendations) || output.recommendations.length > MAX_ITEMS) {
+    errors.push(`$.recommendations must be an array of at most ${MAX_ITEMS} items`);
+    return errors;
+  }
+  output.recommendations.forEach((item, index) => {
+    const path = `$.recommendations[${index}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    errors.push(...unexpectedKeys(item, ['text', 'priority'], path));
+    if (!isText(item.text)) errors.push(`${path}.text must be a non-empty string of at most ${MAX_ITEM_CHARS} characters`);
+    if (!PRIORITIES.includes(item.priority)) errors.push(`${path}.priority must be one of ${PRIORITIES.join(', ')}`);
+  });
+
+  return errors;
+}
+
+// Parse model output, repairing the usual damage: code fences, prose around the
+// object and trailing commas. Returns undefined when nothing parses.
+export function parseModelJson(raw: unknown): { value: unknown; repaired: boolean } | undefined {
+  if (raw && typeof raw === 'object') return { value: raw, repaired: false };
+  const text = String(raw ?? '').trim();
+
+  try {
+    return { value: JSON.parse(text), repaired: false };
+  } catch {
+    // Fall through to repair
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+
+  const candidate = text.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+  try {
+    return { value: JSON.parse(candidate), repaired: true };
+  } catch {
+    return undefined;
+  }
+}
+
+function pageFacts(page: PageData, content: ContentAudit) {
+  return {
+    url: page.url,
+    title: page.title,
+    metaDescription: page.metaDescription,
+    lang: page.lang,
+    headings: page.headings.slice(0, 20).map((h) => `h${h.level}: ${h.text}`),
+    wordCount: content.wordCount,
+    fleschReadingEase: content.fleschReadingEase,
+    targetKeyword: content.targetKeyword?.keyword ?? null,
+    images: page.images.length,
+    imagesWithoutAlt: page.images.filter((i) => !i.alt).length,
+    links: page.links.length,
+    structuredData: page.jsonLd.length + page.structuredItems.length,
+    openingText: page.bodyText.slice(0, 1500)
+  };
+}
+
+function reviewPrompt(mode: AnalysisMode, page: PageData, content: ContentAudit, rules: RuleResult[], ragContext: string): string {
+  const schema = JSON.stringify(mode === 'llm' ? LLM_SCHEMA : HYBRID_SCHEMA);
+  const findings = rules.filter((r) => r.status === 'fail').map((r) => `- [${r.severity}] ${r.message}`).join('\n');
+  const task = mode === 'llm'
+    ? 'Score this page for SEO from 0 to 100, list its issues and recommend fixes.'
+    : `Automated checks already reported these issues; do not repeat them:\n${findings || '- none'}\n\nAdd recommendations specific to this page's content and audience that the checks cannot see.`;
+
+  return `${task}
+
+Page:
+${JSON.stringify(pageFacts(page, content))}
+
+SEO best practices reference:
+${ragContext || 'None'}
+
+Respond with a single JSON object matching this JSON Schema, and nothing else:
+${schema}`;
+}
+
+// Ask the model for a review, feeding schema violations back for up to two retries
+export async function reviewPage(
+  env: Bindings,
+  mode: AnalysisMode,
+  page: PageData,
+  content: ContentAudit,
+  rules: RuleResult[],
+  ragContext: string
+): Promise<LlmReview> {
+  if (mode === 'rules') return SKIPPED;
+
+  const messages: { role: string; content: string }[] = [
+    { role: 'system', content: 'You are an expert SEO auditor. Respond with valid JSON only, no markdown.' },
+    { role: 'user', content: reviewPrompt(mode, page, content, rules, ragContext) }
+  ];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let raw: unknown;
+    try {
+      const response = await env.AI.run(CHAT_MODEL, { messages, max_tokens: 2048 });
+      raw = response.response;
+    } catch (error) {
+      return { ...SKIPPED, status: 'error', model: CHAT_MODEL, attempts: attempt, errors: [error instanceof Error ? error.message : 'Model call failed'] };
+    }
+
+    const parsed = parseModelJson(raw);
+    errors = parsed ? validateReview(parsed.value, mode) : ['output is not valid JSON'];
+    if (!errors.length) {
+      const output = parsed.value as ReviewOutput;
+      return {
+        status: attempt === 1 && !parsed.repaired ? 'ok' : 'repaired',
+        model: CHAT_MODEL,
+        attempts: attempt,
+        errors: [],
+        score: mode === 'llm' ? output.score : null,
+        issues: mode === 'llm' ? output.issues.map((issue) => issue.trim()) : [],
+        recommendations: output.recommendations.map((r) => ({ text: r.text.trim(), priority: r.priority, source: 'llm' as const }))
+      };
+    }
+
+    messages.push(
+      { role: 'assistant', content: typeof raw === 'string' ? raw : JSON.stringify(raw) },
+      { role: 'user', content: `That response is invalid:\n${errors.map((e) => `- ${e}`).join('\n')}\nReturn the corrected JSON object only.` }
+    );
+  }
+
+  return { ...SKIPPED, status: 'invalid', model: CHAT_MODEL, attempts: MAX_ATTEMPTS, errors };
+}
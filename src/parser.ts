@@ -0,0 +1,444 @@
+import type { Heading, ItemValue, LinkTag, PageData, PageLink, PageScript, PageStyle, StructuredItem } from './types';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  middot: '·',
+  bull: '•',
+  laquo: '«',
+  raquo: '»'
+};
+
+// Decode numeric and common named HTML entities
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function cleanText(text: string): string {
+  return decodeEntities(text).replace(/\s+/g, ' ').trim();
+}
+
+function attr(element: Element, name: string): string | null {
+  const value = element.getAttribute(name);
+  return value === null ? null : decodeEntities(value).trim();
+}
+
+const encoder = new TextEncoder();
+
+function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+function relList(value: string | null): string[] {
+  return value ? value.toLowerCase().split(/\s+/).filter(Boolean) : [];
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+// Elements whose text is not part of the visible body copy
+const HIDDEN_TEXT_ELEMENTS = new Set(['title', 'nav', 'script', 'style', 'noscript', 'template', 'svg']);
+
+// Elements allowed in <head>. Any other element starts the body, whether or not <head>
+// was closed or even opened.
+const HEAD_ELEMENTS = new Set(['html', 'head', 'base', 'link', 'meta', 'noscript', 'script', 'style', 'template', 'title']);
+
+// Start tags that close an open <p>, which may leave out its end tag
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr',
+  'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+// An implied end tag never reaches past these elements
+const SCOPE_BOUNDARIES = new Set(['applet', 'button', 'caption', 'html', 'marquee', 'object', 'table', 'td', 'th', 'template']);
+
+// Elements whose microdata/RDFa value comes from an attribute rather than text content
+const VALUE_ATTRIBUTES: Record<string, string> = {
+  meta: 'content',
+  a: 'href',
+  area: 'href',
+  link: 'href',
+  img: 'src',
+  audio: 'src',
+  embed: 'src',
+  iframe: 'src',
+  source: 'src',
+  track: 'src',
+  video: 'src',
+  object: 'data',
+  data: 'value',
+  meter: 'value',
+  time: 'datetime'
+};
+
+interface ItemSyntax {
+  name: StructuredItem['syntax'];
+  scope: string;
+  type: string;
+  id: string;
+  prop: string;
+}
+
+const MICRODATA: ItemSyntax = { name: 'microdata', scope: 'itemscope', type: 'itemtype', id: 'itemid', prop: 'itemprop' };
+const RDFA: ItemSyntax = { name: 'rdfa', scope: 'typeof', type: 'typeof', id: 'resource', prop: 'property' };
+
+type CaptureText = (done: (text: string) => void) => void;
+type OnEndTag = (handler: () => void) => void;
+
+function addProperty(item: StructuredItem, names: string[], value: ItemValue) {
+  for (const name of names) {
+    (item.properties[name] ??= []).push(value);
+  }
+}
+
+// Build nested microdata or RDFa items by tracking the open scopes as the document streams past
+function collectItems(
+  rewriter: HTMLRewriter,
+  syntax: ItemSyntax,
+  items: StructuredItem[],
+  captureText: CaptureText,
+  onEndTag: OnEndTag
+) {
+  const scopes: StructuredItem[] = [];
+
+  return rewriter.on(`[${syntax.scope}], [${syntax.prop}]`, {
+    element(element) {
+      const names = (attr(element, syntax.prop) ?? '').split(/\s+/).filter(Boolean);
+      const parent = scopes[scopes.length - 1];
+      const tag = element.tagName.toLowerCase();
+
+      if (element.hasAttribute(syntax.scope)) {
+        const item: StructuredItem = {
+          syntax: syntax.name,
+          types: (attr(element, syntax.type) ?? '').split(/\s+/).filter(Boolean),
+          id: attr(element, syntax.id),
+          properties: {}
+        };
+        if (names.length && parent) addProperty(parent, names, item);
+        else items.push(item);
+
+        if (!VOID_ELEMENTS.has(tag)) {
+          scopes.push(item);
+          onEndTag(() => {
+            scopes.splice(scopes.lastIndexOf(item), 1);
+          });
+        }
+        return;
+      }
+
+      if (!names.length || !parent) return;
+
+      const valueAttribute = syntax === RDFA && element.hasAttribute('content') ? 'content' : VALUE_ATTRIBUTES[tag];
+      const attributeValue = valueAttribute ? attr(element, valueAttribute) : null;
+      if (attributeValue !== null) {
+        addProperty(parent, names, attributeValue);
+      } else if (!VOID_ELEMENTS.has(tag)) {
+        captureText((text) => addProperty(parent, names, cleanText(text)));
+      }
+    }
+  });
+}
+
+// Parse an HTTP Link header (RFC 8288) into the same shape as <link> tags. Header links
+// are not part of the document, so inHead is false.
+export function parseLinkHeader(value: string | null): LinkTag[] {
+  const tags: LinkTag[] = [];
+  if (!value) return tags;
+
+  for (const [, href, rawParams] of value.matchAll(/<([^>]*)>([^,<]*(?:"[^"]*"[^,<]*)*)/g)) {
+    const params: Record<string, string> = {};
+    for (const [, name, quoted, bare] of rawParams.matchAll(/;\s*([\w*-]+)\s*=\s*(?:"([^"]*)"|([^;,\s]*))/g)) {
+      params[name.toLowerCase()] ??= (quoted ?? bare).trim();
+    }
+    tags.push({
+      rel: relList(params.rel ?? null),
+      href: href.trim(),
+      hreflang: params.hreflang ?? null,
+      type: params.type ?? null,
+      media: params.media ?? null,
+      inHead: false
+    });
+  }
+  return tags;
+}
+
+// Stream the document through HTMLRewriter and collect the typed page model
+export async function parsePage(html: string, url: string): Promise<PageData> {
+  const page: PageData = {
+    url,
+    html,
+    lang: null,
+    title: null,
+    metaDescription: null,
+    headings: [],
+    images: [],
+    links: [],
+    metaTags: [],
+    linkTags: [],
+    scripts: [],
+    styles: [],
+    jsonLd: [],
+    structuredItems: [],
+    bodyText: '',
+    paragraphs: []
+  };
+
+  let titleText: string | null = null;
+  let hiddenDepth = 0;
+  // Until the first body content; the <head> tags themselves are optional
+  let inHead = true;
+  // <source> types of the open <picture> elements, innermost last
+  const pictures: string[][] = [];
+  const bodyChunks: string[] = [];
+
+  // HTMLRewriter keeps only the last onEndTag handler per element, so handlers queue up
+  // for the current element and the catch-all handler below runs them all
+  let endTagQueue: Array<() => void> = [];
+  const onEndTag: OnEndTag = (handler) => {
+    endTagQueue.push(handler);
+  };
+
+  // HTMLRewriter only ends elements at an end tag (its own or an ancestor's), so end tags
+  // the source leaves out, like <p> before the next block or a second <a>, are applied
+  // here. Whatever is still open at the end of the document is ended there.
+  const openElements: Array<{ tag: string; handlers: Array<() => void> }> = [];
+  const endThrough = (index: number) => {
+    for (const open of openElements.splice(index).reverse()) {
+      for (const handler of open.handlers) handler();
+    }
+  };
+  const endOpen = (tag: string) => {
+    for (let i = openElements.length - 1; i >= 0; i--) {
+      if (openElements[i].tag === tag) return endThrough(i);
+      if (SCOPE_BOUNDARIES.has(openElements[i].tag)) return;
+    }
+  };
+
+  // Text chunks are appended to every open capture, so nested markup is included
+  const openCaptures = new Set<{ text: string }>();
+  const captureText: CaptureText = (done) => {
+    const capture = { text: '' };
+    openCaptures.add(capture);
+    onEndTag(() => {
+      openCaptures.delete(capture);
+      done(capture.text);
+    });
+  };
+
+  let rewriter = new HTMLRewriter()
+    .onDocument({
+      text(chunk) {
+        for (const capture of openCaptures) capture.text += chunk.text;
+        // Text outside the head elements starts the body
+        if (inHead && hiddenDepth === 0 && /\S/.test(chunk.text)) inHead = false;
+        if (hiddenDepth === 0 && !inHead) bodyChunks.push(chunk.text);
+      },
+      end() {
+        endThrough(0);
+      }
+    })
+    .on('*', {
+      element(element) {
+        const tag = element.tagName.toLowerCase();
+        if (inHead && hiddenDepth === 0 && !HEAD_ELEMENTS.has(tag)) inHead = false;
+        if (CLOSES_PARAGRAPH.has(tag)) endOpen('p');
+        if (tag === 'a') endOpen('a');
+
+        const queue: Array<() => void> = [];
+        endTagQueue = queue;
+        if (VOID_ELEMENTS.has(tag)) return;
+        const open = { tag, handlers: queue };
+        try {
+          element.onEndTag(() => {
+            const index = openElements.indexOf(open);
+            if (index !== -1) endThrough(index);
+          });
+          openElements.push(open);
+        } catch {
+          // Self-closing foreign elements (e.g. <path/> in SVG) have no end tag
+        }
+      }
+    })
+    .on('*', {
+      element(element) {
+        // Separate text from adjacent elements so words don't run together
+        bodyChunks.push(' ');
+        if (HIDDEN_TEXT_ELEMENTS.has(element.tagName.toLowerCase())) {
+          hiddenDepth++;
+          onEndTag(() => {
+            hiddenDepth--;
+          });
+        }
+      }
+    })
+    .on('html', {
+      element(element) {
+        page.lang ??= attr(element, 'lang');
+      }
+    })
+    .on('head', {
+      element() {
+        onEndTag(() => {
+          inHead = false;
+        });
+      }
+    })
+    .on('title', {
+      element(element) {
+        if (titleText !== null || element.namespaceURI === SVG_NAMESPACE) return;
+        titleText = '';
+        captureText((text) => {
+          titleText = text;
+        });
+      }
+    })
+    .on('meta', {
+      element(element) {
+        page.metaTags.push({
+          name: attr(element, 'name')?.toLowerCase() ?? null,
+          property: attr(element, 'property')?.toLowerCase() ?? null,
+          httpEquiv: attr(element, 'http-equiv')?.toLowerCase() ?? null,
+          charset: attr(element, 'charset'),
+          content: attr(element, 'content')
+        });
+      }
+    })
+    .on('link[href]', {
+      element(element) {
+        page.linkTags.push({
+          rel: relList(attr(element, 'rel')),
+          href: attr(element, 'href') ?? '',
+          hreflang: attr(element, 'hreflang'),
+          type: attr(element, 'type'),
+          media: attr(element, 'media'),
+          inHead
+        });
+      }
+    })
+    .on('h1, h2, h3, h4, h5, h6', {
+      element(element) {
+        const heading: Heading = { level: Number(element.tagName.slice(1)), text: '' };
+        page.headings.push(heading);
+        captureText((text) => {
+          heading.text = cleanText(text);
+        });
+      }
+    })
+    .on('img', {
+      element(element) {
+        page.images.push({
+          src: attr(element, 'src') ?? '',
+          alt: element.hasAttribute('alt') ? attr(element, 'alt') ?? '' : null,
+          width: attr(element, 'width'),
+          height: attr(element, 'height'),
+          loading: attr(element, 'loading')?.toLowerCase() ?? null,
+          sourceTypes: [...(pictures[pictures.length - 1] ?? [])]
+        });
+      }
+    })
+    .on('picture', {
+      element() {
+        const types: string[] = [];
+        pictures.push(types);
+        onEndTag(() => {
+          pictures.splice(pictures.lastIndexOf(types), 1);
+        });
+      }
+    })
+    .on('source[type]', {
+      element(element) {
+        pictures[pictures.length - 1]?.push(attr(element, 'type').toLowerCase());
+      }
+    })
+    .on('a[href]', {
+      element(element) {
+        const link: PageLink = {
+          href: attr(element, 'href') ?? '',
+          text: '',
+          rel: relList(attr(element, 'rel')),
+          target: attr(element, 'target')
+        };
+        page.links.push(link);
+        captureText((text) => {
+          link.text = cleanText(text);
+        });
+      }
+    })
+    .on('p', {
+      element(element) {
+        if (hiddenDepth > 0) return;
+        captureText((text) => {
+          const paragraph = cleanText(text);
+          if (paragraph) page.paragraphs.push(paragraph);
+        });
+      }
+    })
+    .on('script', {
+      element(element) {
+        const type = attr(element, 'type')?.toLowerCase() || null;
+        const script: PageScript = {
+          src: attr(element, 'src'),
+          type,
+          async: element.hasAttribute('async'),
+          defer: element.hasAttribute('defer'),
+          inHead,
+          bytes: 0
+        };
+        page.scripts.push(script);
+        // Script bodies are raw text: keep them as-is for JSON parsing
+        captureText((text) => {
+          if (script.src === null) script.bytes = byteLength(text);
+          if (type === 'application/ld+json') page.jsonLd.push(text);
+        });
+      }
+    })
+    .on('style', {
+      element(element) {
+        const style: PageStyle = { media: attr(element, 'media'), inHead, bytes: 0 };
+        page.styles.push(style);
+        captureText((text) => {
+          style.bytes = byteLength(text);
+        });
+      }
+    });
+
+  rewriter = collectItems(rewriter, MICRODATA, page.structuredItems, captureText, onEndTag);
+  rewriter = collectItems(rewriter, RDFA, page.structuredItems, captureText, onEndTag);
+
+  // Drain the transformed body so every handler runs
+  await rewriter.transform(new Response(html, { headers: { 'content-type': 'text/html' } })).text();
+
+  if (titleText !== null) page.title = cleanText(titleText) || null;
+  page.bodyText = cleanText(bodyChunks.join(''));
+
+  const description = page.metaTags.find((m) => m.name === 'description');
+  page.metaDescription = description?.content || null;
+
+  return page;
+}
@@ -0,0 +1,317 @@
+import { hostOf, resolveUrl } from './urls';
+import type { Recommendation, SeoRule } from './rules';
+import type { PageData, PageImage } from './types';
+
+// Static mobile and page-weight checks on the fetched document: the viewport, what blocks
+// rendering, how heavy the markup is and how images and third-party scripts are loaded
+
+export interface ViewportAudit {
+  // Content of the first viewport meta tag; null when there is none
+  content: string | null;
+  count: number;
+  width: string | null;
+  problems: string[];
+}
+
+export interface PerformanceAudit {
+  viewport: ViewportAudit;
+  htmlBytes: number;
+  inlineScriptBytes: number;
+  inlineStyleBytes: number;
+  // Scripts and stylesheets in <head> that hold up the first render
+  renderBlockingScripts: string[];
+  renderBlockingStylesheets: string[];
+  images: {
+    total: number;
+    missingDimensions: string[];
+    notLazy: string[];
+    legacyFormat: string[];
+  };
+  // Hosts serving external scripts that don't belong to the page's site
+  thirdPartyHosts: string[];
+  thirdPartyScripts: number;
+}
+
+const MAX_HTML_BYTES = 100 * 1024;
+const MAX_INLINE_SCRIPT_BYTES = 50 * 1024;
+const MAX_INLINE_STYLE_BYTES = 30 * 1024;
+const MAX_BLOCKING_STYLESHEETS = 2;
+const MAX_THIRD_PARTY_HOSTS = 5;
+// Lighthouse flags zoom limits below 5x as an accessibility problem
+const MIN_MAXIMUM_SCALE = 5;
+// The first few images are likely above the fold, where lazy loading delays the render
+const EAGER_IMAGES = 3;
+// Failure messages list at most this many URLs
+const LISTED_URLS = 3;
+
+const SCRIPT_TYPES = new Set(['text/javascript', 'application/javascript', 'module']);
+const LEGACY_FORMATS = /\.(jpe?g|png|gif|bmp|tiff?)$/i;
+const MODERN_TYPES = new Set(['image/webp', 'image/avif']);
+// Media queries that never match a screen, so the stylesheet doesn't block rendering
+const NON_SCREEN_MEDIA = new Set(['print', 'not all', 'speech']);
+
+const TRIM_HTML_RECOMMENDATION: Recommendation = {
+  text: '⚡ Trim the HTML: move inline code into cached files and drop unused markup',
+  priority: 'Medium'
+};
+
+const encoder = new TextEncoder();
+
+function kilobytes(bytes: number): number {
+  return Math.round(bytes / 102.4) / 10;
+}
+
+function listed(urls: string[]): string {
+  const shown = urls.slice(0, LISTED_URLS).join(', ');
+  return urls.length > LISTED_URLS ? `${shown} and ${urls.length - LISTED_URLS} more` : shown;
+}
+
+function siteHost(hostname: string): string {
+  return hostname.replace(/^www\./, '');
+}
+
+// Subdomains of the page's site (cdn.example.com for www.example.com) count as first party
+function isFirstParty(host: string, pageHost: string): boolean {
+  const a = siteHost(host);
+  const b = siteHost(pageHost);
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+function parseViewport(contents: string[]): ViewportAudit {
+  const content = contents[0] ?? null;
+  if (content === null) return { content, count: 0, width: null, problems: [] };
+
+  const properties: Record<string, string> = {};
+  for (const part of content.split(/[,;]/)) {
+    const [key, value = ''] = part.split('=').map((s) => s.trim().toLowerCase());
+    if (key) properties[key] = value;
+  }
+
+  const problems: string[] = [];
+  const width = properties.width ?? null;
+  if (contents.length > 1) problems.push(`${contents.length} viewport tags`);
+  if (width === null) problems.push('no width=device-width');
+  else if (width !== 'device-width') problems.push(`fixed width=${width}`);
+  if (['no', '0'].includes(properties['user-scalable'])) problems.push('user-scalable=no disables zooming');
+  const maximumScale = Number(properties['maximum-scale']);
+  if ('maximum-scale' in properties && maximumScale < MIN_MAXIMUM_SCALE) {
+    problems.push(`maximum-scale=${properties['maximum-scale']} limits zooming`);
+  }
+
+  return { content, count: contents.length, width, problems };
+}
+
+function isExecutable(type: string | null): boolean {
+  return type === null || SCRIPT_TYPES.has(type);
+}
+
+function isLegacyFormat(image: PageImage, src: string): boolean {
+  if (image.sourceTypes.some((type) => MODERN_TYPES.has(type))) return false;
+  try {
+    return LEGACY_FORMATS.test(new URL(src).pathname);
+  } catch {
+    return false;
+  }
+}
+
+export function auditPerformance(page: PageData): PerformanceAudit {
+  const pageHost = hostOf(page.url);
+  const resolve = (href: string) => resolveUrl(href, page.url) ?? href;
+
+  const viewport = parseViewport(
+    page.metaTags.filter((meta) => meta.name === 'viewport').map((meta) => meta.content ?? '')
+  );
+
+  const inlineScripts = page.scripts.filter((script) => script.src === null && isExecutable(script.type));
+  const externalScripts = page.scripts.filter((script) => script.src && isExecutable(script.type));
+
+  // Module scripts are deferred by default
+  const renderBlockingScripts = externalScripts
+    .filter((script) => script.inHead && !script.async && !script.defer && script.type !== 'module')
+    .map((script) => resolve(script.src));
+  const renderBlockingStylesheets = page.linkTags
+    .filter((tag) => tag.inHead && tag.rel.includes('stylesheet') && !tag.rel.includes('alternate'))
+    .filter((tag) => !NON_SCREEN_MEDIA.has(tag.media?.toLowerCase() ?? ''))
+    .map((tag) => resolve(tag.href));
+
+  // Inline data: images cost no request and would flood the URL lists
+  const images = page.images.filter((image) => image.src && !image.src.startsWith('data:'));
+  const thirdPartyScripts = externalScripts
+    .map((script) => {
+      try {
+        return new URL(resolve(script.src));
+      } catch {
+        return null;
+      }
+    })
+    .filter((url) => url && (url.protocol === 'http:' || url.protocol === 'https:'))
+    .map((url) => url.hostname.toLowerCase())
+    .filter((host) => !isFirstParty(host, pageHost));
+
+  return {
+    viewport,
+    htmlBytes: encoder.encode(page.html).length,
+    inlineScriptBytes: inlineScripts.reduce((sum, script) => sum + script.bytes, 0),
+    inlineStyleBytes: page.styles.reduce((sum, style) => sum + style.bytes, 0),
+    renderBlockingScripts,
+    renderBlockingStylesheets,
+    images: {
+      total: images.length,
+      missingDimensions: images.filter((image) => !image.width || !image.height).map((image) => resolve(image.src)),
+      notLazy: images
+        .slice(EAGER_IMAGES)
+        .filter((image) => image.loading !== 'lazy')
+        .map((image) => resolve(image.src)),
+      legacyFormat: images.filter((image) => isLegacyFormat(image, resolve(image.src))).map((image) => resolve(image.src))
+    },
+    thirdPartyHosts: [...new Set(thirdPartyScripts)].sort(),
+    thirdPartyScripts: thirdPartyScripts.length
+  };
+}
+
+export const PERFORMANCE_RULES: SeoRule[] = [
+  {
+    id: 'viewport-missing',
+    category: 'mobile',
+    severity: 'critical',
+    weight: 15,
+    message: 'No viewport meta tag - mobile browsers will render the page at desktop width',
+    recommendation: { text: '📱 Add <meta name="viewport" content="width=device-width, initial-scale=1">', priority: 'High' },
+    check: ({ performance }) => performance ? { passed: performance.viewport.count > 0 } : null
+  },
+  {
+    id: 'viewport-invalid',
+    category: 'mobile',
+    severity: 'warning',
+    weight: 10,
+    message: 'Viewport meta tag "{content}" is misconfigured: {problems}',
+    recommendation: { text: '📱 Use a single viewport tag with width=device-width and leave zooming enabled', priority: 'Medium' },
+    check: ({ performance }) => {
+      const viewport = performance?.viewport;
+      if (!viewport?.count) return null;
+      return { passed: viewport.problems.length === 0, data: { content: viewport.content, problems: viewport.problems.join(', ') } };
+    }
+  },
+  {
+    id: 'render-blocking-scripts',
+    category: 'performance',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} render-blocking scripts in <head>: {urls}',
+    recommendation: { text: '⚡ Add defer or async to the scripts in <head>, or move them to the end of <body>', priority: 'Medium' },
+    check: ({ performance }) => performance ? {
+      passed: performance.renderBlockingScripts.length === 0,
+      data: { count: performance.renderBlockingScripts.length, urls: listed(performance.renderBlockingScripts) }
+    } : null
+  },
+  {
+    id: 'render-blocking-stylesheets',
+    category: 'performance',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} render-blocking stylesheets in <head> (aim for {max} or fewer): {urls}',
+    recommendation: { text: '⚡ Combine stylesheets, inline the critical CSS and load the rest without blocking the first render', priority: 'Medium' },
+    check: ({ performance }) => performance ? {
+      passed: performance.renderBlockingStylesheets.length <= MAX_BLOCKING_STYLESHEETS,
+      data: {
+        count: performance.renderBlockingStylesheets.length,
+        max: MAX_BLOCKING_STYLESHEETS,
+        urls: listed(performance.renderBlockingStylesheets)
+      }
+    } : null
+  },
+  {
+    id: 'html-too-large',
+    category: 'performance',
+    severity: 'warning',
+    weight: 5,
+    message: 'HTML document is {size} KB - keep it under 100 KB',
+    recommendation: TRIM_HTML_RECOMMENDATION,
+    check: ({ performance }) => performance
+      ? { passed: performance.htmlBytes <= MAX_HTML_BYTES, data: { size: kilobytes(performance.htmlBytes) } }
+      : null
+  },
+  {
+    id: 'inline-scripts-large',
+    category: 'performance',
+    severity: 'warning',
+    weight: 5,
+    message: 'Inline scripts add {size} KB to the HTML (aim for under 50 KB)',
+    recommendation: TRIM_HTML_RECOMMENDATION,
+    check: ({ performance }) => performance
+      ? { passed: performance.inlineScriptBytes <= MAX_INLINE_SCRIPT_BYTES, data: { size: kilobytes(performance.inlineScriptBytes) } }
+      : null
+  },
+  {
+    id: 'inline-styles-large',
+    category: 'performance',
+    severity: 'warning',
+    weight: 5,
+    message: 'Inline styles add {size} KB to the HTML (aim for under 30 KB)',
+    recommendation: TRIM_HTML_RECOMMENDATION,
+    check: ({ performance }) => performance
+      ? { passed: performance.inlineStyleBytes <= MAX_INLINE_STYLE_BYTES, data: { size: kilobytes(performance.inlineStyleBytes) } }
+      : null
+  },
+  {
+    id: 'images-missing-dimensions',
+    category: 'images',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} of {total} images have no width and height attributes, so the layout shifts as they load: {urls}',
+    recommendation: { text: '🖼️ Set width and height on every image so the browser reserves space for it', priority: 'Medium' },
+    check: ({ performance }) => {
+      const images = performance?.images;
+      if (!images?.total) return null;
+      const missing = images.missingDimensions;
+      return { passed: missing.length === 0, data: { count: missing.length, total: images.total, urls: listed(missing) } };
+    }
+  },
+  {
+    id: 'images-not-lazy',
+    category: 'images',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} images below the first {eager} load eagerly: {urls}',
+    recommendation: { text: '🖼️ Add loading="lazy" to images below the fold', priority: 'Low' },
+    check: ({ performance }) => {
+      const images = performance?.images;
+      if (!images || images.total <= EAGER_IMAGES) return null;
+      return {
+        passed: images.notLazy.length === 0,
+        data: { count: images.notLazy.length, eager: EAGER_IMAGES, urls: listed(images.notLazy) }
+      };
+    }
+  },
+  {
+    id: 'images-legacy-format',
+    category: 'images',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} images are served as JPEG, PNG, GIF, BMP or TIFF (judged by file extension): {urls}',
+    recommendation: { text: '🖼️ Serve WebP or AVIF images, with a <picture> fallback where older browsers matter', priority: 'Low' },
+    check: ({ performance }) => {
+      const images = performance?.images;
+      if (!images?.total) return null;
+      const legacy = images.legacyFormat;
+      return { passed: legacy.length === 0, data: { count: legacy.length, urls: listed(legacy) } };
+    }
+  },
+  {
+    id: 'third-party-scripts',
+    category: 'performance',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} scripts load from {hosts} third-party hosts (aim for {max} or fewer): {list}',
+    recommendation: { text: '⚡ Audit third-party tags and remove or defer the ones the page can do without', priority: 'Medium' },
+    check: ({ performance }) => performance ? {
+      passed: performance.thirdPartyHosts.length <= MAX_THIRD_PARTY_HOSTS,
+      data: {
+        count: performance.thirdPartyScripts,
+        hosts: performance.thirdPartyHosts.length,
+        max: MAX_THIRD_PARTY_HOSTS,
+        list: performance.thirdPartyHosts.join(', ')
+      }
+    } : null
+  }
+];
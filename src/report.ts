@@ -0,0 +1,426 @@
+import { getAnalysis, getAnalysisPage } from './history';
+import { generateRecommendations, SEO_RULES } from './rules';
+import type { getCrawlReport } from './crawl';
+import type { AnalysisRecord, IssueRecord } from './history';
+import type { Recommendation, RuleSeverity } from './rules';
+import type { Bindings, StoredPage } from './types';
+
+// Client-facing audit reports rendered from stored analyses and crawls
+
+export type ReportFormat = 'md' | 'html' | 'csv' | 'json';
+
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'html', 'csv', 'json'];
+
+export interface RenderedReport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+type CrawlReport = NonNullable<Awaited<ReturnType<typeof getCrawlReport>>>;
+
+interface ReportIssue extends IssueRecord {
+  recommendation: Recommendation | null;
+}
+
+export interface AnalysisReport {
+  analysisId: number;
+  url: string;
+  analyzedAt: string;
+  score: number | null;
+  mode: string;
+  llmStatus: string | null;
+  rules: { passed: number; failed: number; skipped: number };
+  issues: Record<RuleSeverity, ReportIssue[]>;
+  // Findings of an llm-mode review, which are not tied to rules
+  reviewFindings: string[];
+  recommendations: Recommendation[];
+  page: {
+    title: string | null;
+    metaDescription: string | null;
+    lang: string | null;
+    canonical: string | null;
+    headings: string[];
+    wordCount: number | null;
+    images: number | null;
+    links: number | null;
+  };
+  sources: string[];
+}
+
+export interface CrawlIssueRow {
+  url: string;
+  analysisId: number;
+  score: number | null;
+  analyzedAt: string | null;
+  issue: IssueRecord;
+}
+
+const SEVERITIES: RuleSeverity[] = ['critical', 'warning', 'info'];
+
+const SEVERITY_LABELS: Record<RuleSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warnings',
+  info: 'Notices'
+};
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+const CSV_COLUMNS = ['url', 'analysis_id', 'analyzed_at', 'score', 'rule_id', 'category', 'severity', 'weight', 'message', 'recommendation', 'priority'];
+
+const RULES_BY_ID = new Map(SEO_RULES.map((rule) => [rule.id, rule]));
+
+function count(list: unknown): number | null {
+  return Array.isArray(list) ? list.length : null;
+}
+
+function canonicalOf(page: StoredPage | null): string | null {
+  return page?.linkTags?.find((tag) => tag.rel.includes('canonical'))?.href ?? null;
+}
+
+export function toAnalysisReport(record: AnalysisRecord, page: StoredPage | null): AnalysisReport {
+  const analysis = record.analysis;
+  const rules = analysis?.rules ?? [];
+  const llmRecommendations = (analysis?.recommendations ?? record.recommendations).filter((r) => r.source === 'llm');
+  const recommendations = [...generateRecommendations(rules), ...llmRecommendations];
+
+  const issues = { critical: [], warning: [], info: [] } as Record<RuleSeverity, ReportIssue[]>;
+  for (const issue of record.issues) {
+    issues[issue.severity]?.push({ ...issue, recommendation: RULES_BY_ID.get(issue.ruleId)?.recommendation ?? null });
+  }
+  for (const severity of SEVERITIES) issues[severity].sort((a, b) => b.weight - a.weight);
+
+  return {
+    analysisId: record.id,
+    url: record.url,
+    analyzedAt: record.createdAt,
+    score: record.score,
+    mode: analysis?.mode ?? 'rules',
+    llmStatus: analysis?.llmStatus ?? null,
+    rules: {
+      passed: rules.filter((r) => r.status === 'pass').length,
+      failed: rules.filter((r) => r.status === 'fail').length,
+      skipped: rules.filter((r) => r.status === 'skipped').length
+    },
+    issues,
+    reviewFindings: analysis?.mode === 'llm' ? analysis.issues : [],
+    recommendations,
+    page: {
+      title: record.title,
+      metaDescription: record.metaDescription,
+      lang: page?.lang ?? null,
+      canonical: canonicalOf(page),
+      headings: record.headings.map((h) => `H${h.level}: ${h.text}`),
+      wordCount: analysis?.content?.wordCount ?? null,
+      images: count(page?.images),
+      links: count(page?.links)
+    },
+    sources: analysis?.sources ?? []
+  };
+}
+
+export async function getAnalysisReport(env: Bindings, id: number, projectId: number | null = null): Promise<AnalysisReport | null> {
+  const record = await getAnalysis(env, id, projectId);
+  if (!record) return null;
+  return toAnalysisReport(record, await getAnalysisPage(env, id));
+}
+
+// Every issue of every analyzed page in a crawl
+export async function getCrawlIssues(env: Bindings, crawlId: number): Promise<CrawlIssueRow[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT p.url, p.analysis_id, p.score, p.analyzed_at, i.rule_id, i.category, i.severity, i.weight, i.message
+     FROM crawl_pages p JOIN analysis_issues i ON i.analysis_id = p.analysis_id
+     WHERE p.crawl_id = ? AND p.status = 'done'
+     ORDER BY p.depth, p.id, i.weight DESC, i.id`
+  ).bind(crawlId).all<{
+    url: string;
+    analysis_id: number;
+    score: number | null;
+    analyzed_at: string | null;
+    rule_id: string;
+    category: string;
+    severity: RuleSeverity;
+    weight: number;
+    message: string;
+  }>();
+
+  return results.map((r) => ({
+    url: r.url,
+    analysisId: r.analysis_id,
+    score: r.score,
+    analyzedAt: r.analyzed_at,
+    issue: { ruleId: r.rule_id, category: r.category, severity: r.severity, weight: r.weight, message: r.message }
+  }));
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Cells starting with a formula character are prefixed so spreadsheets show them as text
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(rows: unknown[][]): string {
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function mdCell(value: unknown): string {
+  return String(value ?? '—').replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+}
+
+function scoreLabel(score: number | null): string {
+  return score === null ? 'not scored' : `${score}/100`;
+}
+
+function issueCsvRow(url: string, analysisId: number, analyzedAt: string | null, score: number | null, issue: IssueRecord) {
+  const recommendation = RULES_BY_ID.get(issue.ruleId)?.recommendation;
+  return [url, analysisId, analyzedAt, score, issue.ruleId, issue.category, issue.severity, issue.weight, issue.message,
+    recommendation?.text ?? null, recommendation?.priority ?? null];
+}
+
+function analysisMarkdown(report: AnalysisReport): string {
+  const lines = [
+    `# SEO Audit: ${report.url}`,
+    '',
+    `Analyzed ${report.analyzedAt} UTC (analysis #${report.analysisId}, ${report.mode} mode)`,
+    '',
+    '## Summary',
+    '',
+    `- **Score:** ${scoreLabel(report.score)}`,
+    `- **Rules:** ${report.rules.passed} passed, ${report.rules.failed} failed, ${report.rules.skipped} not applicable`,
+    ...SEVERITIES.map((s) => `- **${SEVERITY_LABELS[s]}:** ${report.issues[s].length}`),
+    ...(report.llmStatus && report.llmStatus !== 'skipped' ? [`- **AI review:** ${report.llmStatus}`] : []),
+    '',
+    '## Issues'
+  ];
+
+  for (const severity of SEVERITIES) {
+    if (!report.issues[severity].length) continue;
+    lines.push('', `### ${SEVERITY_LABELS[severity]}`, '', '| Rule | Issue | Impact |', '|------|-------|--------|');
+    for (const issue of report.issues[severity]) {
+      lines.push(`| \`${issue.ruleId}\` | ${mdCell(issue.message)} | -${issue.weight} |`);
+    }
+  }
+  if (report.reviewFindings.length) {
+    lines.push('', '### AI review findings', '', ...report.reviewFindings.map((f) => `- ${f}`));
+  }
+  if (!report.rules.failed && !report.reviewFindings.length) lines.push('', 'No issues found.');
+
+  lines.push('', '## Recommendations', '');
+  lines.push(...(report.recommendations.length
+    ? report.recommendations.map((r, i) => `${i + 1}. **${r.priority}** ${r.text}${r.source === 'llm' ? ' _(AI review)_' : ''}`)
+    : ['None.']));
+
+  lines.push(
+    '',
+    '## Page data',
+    '',
+    '| Field | Value |',
+    '|-------|-------|',
+    `| Title | ${mdCell(report.page.title)} |`,
+    `| Meta description | ${mdCell(report.page.metaDescription)} |`,
+    `| Language | ${mdCell(report.page.lang)} |`,
+    `| Canonical | ${mdCell(report.page.canonical)} |`,
+    `| Word count | ${mdCell(report.page.wordCount)} |`,
+    `| Images | ${mdCell(report.page.images)} |`,
+    `| Links | ${mdCell(report.page.links)} |`
+  );
+  if (report.page.headings.length) {
+    lines.push('', '### Headings', '', ...report.page.headings.map((h) => `- ${h}`));
+  }
+
+  if (report.sources.length) {
+    lines.push('', '## Sources', '', ...report.sources.map((s) => `- ${s}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function htmlDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font: 15px/1.5 system-ui, sans-serif; color: #1f2937; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.6rem; word-break: break-all; }
+h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; margin-top: 2rem; }
+table { border-collapse: collapse; width: 100%; margin: .5rem 0; }
+th, td { border: 1px solid #e5e7eb; padding: .4rem .6rem; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+.score { font-size: 2.5rem; font-weight: 700; }
+.critical { color: #b91c1c; } .warning { color: #b45309; } .info { color: #1d4ed8; }
+.muted { color: #6b7280; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function htmlTable(headers: string[], rows: unknown[][]): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell ?? '—')}</td>`).join('')}</tr>`).join('\n');
+  return `<table>\n<tr>${head}</tr>\n${body}\n</table>`;
+}
+
+function analysisHtml(report: AnalysisReport): string {
+  const parts = [
+    `<h1>SEO Audit: ${escapeHtml(report.url)}</h1>`,
+    `<p class="muted">Analyzed ${escapeHtml(report.analyzedAt)} UTC (analysis #${report.analysisId}, ${escapeHtml(report.mode)} mode)</p>`,
+    '<h2>Summary</h2>',
+    `<p class="score">${escapeHtml(scoreLabel(report.score))}</p>`,
+    '<ul>',
+    `<li>Rules: ${report.rules.passed} passed, ${report.rules.failed} failed, ${report.rules.skipped} not applicable</li>`,
+    ...SEVERITIES.map((s) => `<li class="${s}">${SEVERITY_LABELS[s]}: ${report.issues[s].length}</li>`),
+    ...(report.llmStatus && report.llmStatus !== 'skipped' ? [`<li>AI review: ${escapeHtml(report.llmStatus)}</li>`] : []),
+    '</ul>',
+    '<h2>Issues</h2>'
+  ];
+
+  for (const severity of SEVERITIES) {
+    if (!report.issues[severity].length) continue;
+    parts.push(
+      `<h3 class="${severity}">${SEVERITY_LABELS[severity]}</h3>`,
+      htmlTable(['Rule', 'Issue', 'Impact'], report.issues[severity].map((i) => [i.ruleId, i.message, `-${i.weight}`]))
+    );
+  }
+  if (report.reviewFindings.length) {
+    parts.push('<h3>AI review findings</h3>', `<ul>${report.reviewFindings.map((f) => `<li>${escapeHtml(f)}</li>`).join('')}</ul>`);
+  }
+  if (!report.rules.failed && !report.reviewFindings.length) parts.push('<p>No issues found.</p>');
+
+  parts.push('<h2>Recommendations</h2>');
+  parts.push(report.recommendations.length
+    ? `<ol>${report.recommendations.map((r) => `<li><strong>${r.priority}</strong> ${escapeHtml(r.text)}${r.source === 'llm' ? ' <span class="muted">(AI review)</span>' : ''}</li>`).join('\n')}</ol>`
+    : '<p>None.</p>');
+
+  parts.push('<h2>Page data</h2>', htmlTable(['Field', 'Value'], [
+    ['Title', report.page.title],
+    ['Meta description', report.page.metaDescription],
+    ['Language', report.page.lang],
+    ['Canonical', report.page.canonical],
+    ['Word count', report.page.wordCount],
+    ['Images', report.page.images],
+    ['Links', report.page.links]
+  ]));
+  if (report.page.headings.length) {
+    parts.push('<h3>Headings</h3>', `<ul>${report.page.headings.map((h) => `<li>${escapeHtml(h)}</li>`).join('')}</ul>`);
+  }
+
+  if (report.sources.length) {
+    parts.push('<h2>Sources</h2>', `<ul>${report.sources.map((s) => `<li>${escapeHtml(s)}</li>`).join('')}</ul>`);
+  }
+
+  return htmlDocument(`SEO Audit: ${report.url}`, parts.join('\n'));
+}
+
+export function renderAnalysisReport(report: AnalysisReport, format: ReportFormat): RenderedReport {
+  const filename = `seo-audit-${report.analysisId}.${format}`;
+  const render: Record<ReportFormat, () => string> = {
+    md: () => analysisMarkdown(report),
+    html: () => analysisHtml(report),
+    csv: () => csv(SEVERITIES.flatMap((s) => report.issues[s]).map((issue) =>
+      issueCsvRow(report.url, report.analysisId, report.analyzedAt, report.score, issue))),
+    json: () => JSON.stringify(report, null, 2)
+  };
+  return { body: render[format](), contentType: CONTENT_TYPES[format], filename };
+}
+
+// Site-level totals: issues by severity and the rules failing on the most pages
+function crawlSummary(crawl: CrawlReport, issues: CrawlIssueRow[]) {
+  const bySeverity = { critical: 0, warning: 0, info: 0 } as Record<RuleSeverity, number>;
+  const byRule = new Map<string, { ruleId: string; severity: RuleSeverity; message: string; pages: Set<string> }>();
+  const perPage = new Map<string, number>();
+
+  for (const row of issues) {
+    bySeverity[row.issue.severity] = (bySeverity[row.issue.severity] ?? 0) + 1;
+    perPage.set(row.url, (perPage.get(row.url) ?? 0) + 1);
+    const entry = byRule.get(row.issue.ruleId)
+      ?? { ruleId: row.issue.ruleId, severity: row.issue.severity, message: row.issue.message, pages: new Set<string>() };
+    entry.pages.add(row.url);
+    byRule.set(row.issue.ruleId, entry);
+  }
+
+  return {
+    bySeverity,
+    rules: [...byRule.values()]
+      .sort((a, b) => b.pages.size - a.pages.size || SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity))
+      .map((r) => ({
+        ruleId: r.ruleId,
+        severity: r.severity,
+        pages: r.pages.size,
+        example: r.message,
+        recommendation: RULES_BY_ID.get(r.ruleId)?.recommendation ?? null
+      })),
+    pages: crawl.pages.map((p) => ({ ...p, issues: perPage.get(p.url) ?? 0 }))
+  };
+}
+
+export function renderCrawlReport(crawl: CrawlReport, issues: CrawlIssueRow[], format: ReportFormat): RenderedReport {
+  const filename = `seo-crawl-${crawl.id}.${format}`;
+  const summary = crawlSummary(crawl, issues);
+  const heading = `SEO Site Audit: ${crawl.seedUrl}`;
+  const intro = `Crawl #${crawl.id} (${crawl.status}), started ${crawl.createdAt} UTC. `
+    + `${crawl.progress.analyzed} of ${crawl.progress.discovered} pages analyzed, average score ${crawl.aggregates.averageScore ?? '—'}.`;
+  const ruleRows = summary.rules.map((r) => [r.ruleId, r.severity, r.pages, r.example, r.recommendation?.text ?? null]);
+  const pageRows = summary.pages.map((p) => [p.url, p.status, p.score, p.issues, p.error]);
+
+  const render: Record<ReportFormat, () => string> = {
+    md: () => [
+      `# ${heading}`,
+      '',
+      intro,
+      '',
+      '## Summary',
+      '',
+      ...SEVERITIES.map((s) => `- **${SEVERITY_LABELS[s]}:** ${summary.bySeverity[s]}`),
+      '',
+      '## Issues across pages',
+      '',
+      ...(ruleRows.length ? [
+        '| Rule | Severity | Pages | Example | Recommendation |',
+        '|------|----------|-------|---------|----------------|',
+        ...ruleRows.map((row) => `| ${row.map(mdCell).join(' | ')} |`)
+      ] : ['No issues found.']),
+      '',
+      '## Pages',
+      '',
+      '| URL | Status | Score | Issues | Error |',
+      '|-----|--------|-------|--------|-------|',
+      ...pageRows.map((row) => `| ${row.map(mdCell).join(' | ')} |`),
+      ''
+    ].join('\n'),
+    html: () => htmlDocument(heading, [
+      `<h1>${escapeHtml(heading)}</h1>`,
+      `<p class="muted">${escapeHtml(intro)}</p>`,
+      '<h2>Summary</h2>',
+      `<ul>${SEVERITIES.map((s) => `<li class="${s}">${SEVERITY_LABELS[s]}: ${summary.bySeverity[s]}</li>`).join('')}</ul>`,
+      '<h2>Issues across pages</h2>',
+      ruleRows.length ? htmlTable(['Rule', 'Severity', 'Pages', 'Example', 'Recommendation'], ruleRows) : '<p>No issues found.</p>',
+      '<h2>Pages</h2>',
+      htmlTable(['URL', 'Status', 'Score', 'Issues', 'Error'], pageRows)
+    ].join('\n')),
+    csv: () => csv(issues.map((row) => issueCsvRow(row.url, row.analysisId, row.analyzedAt, row.score, row.issue))),
+    json: () => JSON.stringify({ ...crawl, pages: summary.pages, summary: { bySeverity: summary.bySeverity, rules: summary.rules } }, null, 2)
+  };
+  return { body: render[format](), contentType: CONTENT_TYPES[format], filename };
+}
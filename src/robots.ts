@@ -0,0 +1,158 @@
+import { fetchPublic } from './fetcher';
+
+// robots.txt fetching, parsing and matching (RFC 9309 semantics)
+
+export const GOOGLEBOT_TOKEN = 'googlebot';
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export interface ParsedRobots {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  userAgent: string;
+  matchedGroup: string | null;
+  matchedRule: RobotsRule | null;
+  crawlDelay: number | null;
+}
+
+export function parseRobots(text: string): ParsedRobots {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [], crawlDelay: null };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        if (current) current.rules.push({ type: key, path: value });
+        collectingAgents = false;
+        break;
+      case 'crawl-delay':
+        if (current) {
+          const delay = Number(value);
+          current.crawlDelay = Number.isFinite(delay) ? delay : null;
+        }
+        collectingAgents = false;
+        break;
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Pick the most specific matching group; groups naming the same agent are merged
+function groupsFor(robots: ParsedRobots, token: string): { name: string | null; groups: RobotsGroup[] } {
+  let bestName: string | null = null;
+  for (const group of robots.groups) {
+    for (const agent of group.userAgents) {
+      if (agent !== '*' && token.startsWith(agent) && (!bestName || agent.length > bestName.length)) {
+        bestName = agent;
+      }
+    }
+  }
+
+  const name = bestName ?? (robots.groups.some((g) => g.userAgents.includes('*')) ? '*' : null);
+  return { name, groups: name ? robots.groups.filter((g) => g.userAgents.includes(name)) : [] };
+}
+
+export function isAllowed(robots: ParsedRobots, token: string, url: string): RobotsVerdict {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  const { name, groups } = groupsFor(robots, token.toLowerCase());
+
+  let matchedRule: RobotsRule | null = null;
+  for (const rule of groups.flatMap((g) => g.rules)) {
+    if (!rule.path || !patternToRegExp(rule.path).test(path)) continue;
+    const longer = !matchedRule || rule.path.length > matchedRule.path.length;
+    const tieGoesToAllow = matchedRule && rule.path.length === matchedRule.path.length && rule.type === 'allow';
+    if (longer || tieGoesToAllow) matchedRule = rule;
+  }
+
+  const crawlDelay = groups.find((g) => g.crawlDelay !== null)?.crawlDelay ?? null;
+  return {
+    allowed: matchedRule?.type !== 'disallow',
+    userAgent: token,
+    matchedGroup: name,
+    matchedRule,
+    crawlDelay
+  };
+}
+
+// The robots.txt product token of our user agent: the bot named after "compatible;", or
+// else the leading product, so "Mozilla/5.0 (compatible; SEOAgentBot/1.0)" is seoagentbot
+export function crawlerToken(userAgent: string): string {
+  const product = userAgent.match(/compatible;\s*([a-z_-]+)/i) ?? userAgent.match(/^\s*([a-z_-]+)/i);
+  return (product?.[1] ?? userAgent).toLowerCase();
+}
+
+// RFC 9309 asks parsers to read at least 500 KiB; anything after that is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+export interface RobotsFile {
+  url: string;
+  status: number | null;
+  // 4xx means "no restrictions"; 5xx and network errors mean "assume disallowed"
+  reachable: boolean;
+  robots: ParsedRobots;
+}
+
+export async function fetchRobots(pageUrl: string, userAgent: string): Promise<RobotsFile> {
+  const url = new URL('/robots.txt', pageUrl).toString();
+  try {
+    const response = await fetchPublic(url, { userAgent, maxBytes: MAX_ROBOTS_BYTES, truncate: true });
+    if (response.status >= 500) {
+      return { url, status: response.status, reachable: false, robots: { groups: [], sitemaps: [] } };
+    }
+    const robots = response.ok ? parseRobots(response.text()) : { groups: [], sitemaps: [] };
+    return { url, status: response.status, reachable: true, robots };
+  } catch {
+    return { url, status: null, reachable: false, robots: { groups: [], sitemaps: [] } };
+  }
+}
+
+export function verdictFor(file: RobotsFile, token: string, pageUrl: string): RobotsVerdict {
+  if (!file.reachable) {
+    return { allowed: false, userAgent: token, matchedGroup: null, matchedRule: null, crawlDelay: null };
+  }
+  return isAllowed(file.robots, token, pageUrl);
+}
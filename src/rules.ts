@@ -0,0 +1,305 @@
+import { ALT_TEXT_RULES } from './alt-text';
+import { CONTENT_RULES } from './content';
+import { CRAWLABILITY_RULES } from './crawlability';
+import { HEADING_RULES } from './headings';
+import { HREFLANG_RULES } from './hreflang';
+import { HTTPS_RULES, INDEXABILITY_RULES } from './indexability';
+import { LINK_RULES } from './links';
+import { PERFORMANCE_RULES } from './performance';
+import { SOCIAL_RULES } from './social';
+import { STRUCTURED_DATA_RULES } from './structured-data';
+import type { AltTextAudit } from './alt-text';
+import type { ContentAudit } from './content';
+import type { CrawlabilityAudit } from './crawlability';
+import type { HeadingAudit } from './headings';
+import type { HreflangAudit } from './hreflang';
+import type { IndexabilityAudit } from './indexability';
+import type { LinkAudit } from './links';
+import type { PerformanceAudit } from './performance';
+import type { SocialAudit } from './social';
+import type { StructuredDataAudit } from './structured-data';
+import type { PageData } from './types';
+
+// Declarative SEO rule engine: score, issues and recommendations all derive from rule results
+
+export type RuleCategory = 'title' | 'meta' | 'headings' | 'images' | 'links' | 'security' | 'crawlability'
+  | 'structured-data' | 'social' | 'content' | 'mobile' | 'performance' | 'international';
+export type RuleSeverity = 'critical' | 'warning' | 'info';
+export type RuleStatus = 'pass' | 'fail' | 'skipped';
+export type Priority = 'High' | 'Medium' | 'Low';
+
+export interface Recommendation {
+  text: string;
+  priority: Priority;
+  // Set on page-specific advice added by the LLM review
+  source?: 'llm';
+}
+
+export interface RuleContext {
+  page: PageData;
+  // Optional audits; rules that depend on a missing audit are skipped
+  crawlability?: CrawlabilityAudit;
+  indexability?: IndexabilityAudit;
+  headings?: HeadingAudit;
+  altText?: AltTextAudit;
+  hreflang?: HreflangAudit;
+  links?: LinkAudit;
+  structuredData?: StructuredDataAudit;
+  social?: SocialAudit;
+  content?: ContentAudit;
+  performance?: PerformanceAudit;
+}
+
+export interface RuleOutcome {
+  passed: boolean;
+  data?: Record<string, string | number>;
+}
+
+export interface SeoRule {
+  id: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  weight: number;
+  // Rendered with {placeholders} from the outcome data when the rule fails
+  message: string;
+  recommendation?: Recommendation;
+  // Returning null marks the rule as not applicable to this page
+  check: (ctx: RuleContext) => RuleOutcome | null;
+}
+
+export interface RuleResult {
+  id: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  weight: number;
+  status: RuleStatus;
+  message: string | null;
+  data: Record<string, string | number>;
+}
+
+const SEVERITY_ICONS: Record<RuleSeverity, string> = {
+  critical: '❌',
+  warning: '⚠️',
+  info: 'ℹ️'
+};
+
+const PRIORITY_ORDER: Record<Priority, number> = { High: 0, Medium: 1, Low: 2 };
+
+const TITLE_RECOMMENDATION: Recommendation = {
+  text: '📝 Add a descriptive, keyword-rich title tag (50-60 characters)',
+  priority: 'High'
+};
+
+const META_RECOMMENDATION: Recommendation = {
+  text: '📝 Create a compelling meta description (150-160 characters) with a call-to-action',
+  priority: 'High'
+};
+
+const LANG_RECOMMENDATION: Recommendation = {
+  text: '🌐 Declare the page language on <html>, e.g. lang="en" or lang="en-GB"',
+  priority: 'Low'
+};
+
+// Language, optional script and region, then variants: en, en-GB, zh-Hant-TW, es-419
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?(-[a-z\d]{5,8})*$/i;
+
+const PAGE_RULES: SeoRule[] = [
+  {
+    id: 'title-missing',
+    category: 'title',
+    severity: 'critical',
+    weight: 20,
+    message: 'Missing title tag - critical for SEO',
+    recommendation: TITLE_RECOMMENDATION,
+    check: ({ page }) => ({ passed: Boolean(page.title) })
+  },
+  {
+    id: 'title-too-short',
+    category: 'title',
+    severity: 'warning',
+    weight: 10,
+    message: 'Title tag is too short ({length} characters) - should be 50-60 characters',
+    recommendation: TITLE_RECOMMENDATION,
+    check: ({ page }) => page.title
+      ? { passed: page.title.length >= 50, data: { length: page.title.length } }
+      : null
+  },
+  {
+    id: 'title-too-long',
+    category: 'title',
+    severity: 'warning',
+    weight: 10,
+    message: 'Title tag is too long ({length} characters) - may be truncated in search results',
+    recommendation: { text: '✂️ Shorten the title tag to 50-60 characters so it is not truncated', priority: 'Medium' },
+    check: ({ page }) => page.title
+      ? { passed: page.title.length <= 60, data: { length: page.title.length } }
+      : null
+  },
+  {
+    id: 'meta-description-missing',
+    category: 'meta',
+    severity: 'critical',
+    weight: 20,
+    message: 'Missing meta description - important for click-through rates',
+    recommendation: META_RECOMMENDATION,
+    check: ({ page }) => ({ passed: Boolean(page.metaDescription) })
+  },
+  {
+    id: 'meta-description-too-short',
+    category: 'meta',
+    severity: 'warning',
+    weight: 10,
+    message: 'Meta description is too short ({length} characters) - should be 150-160 characters',
+    recommendation: META_RECOMMENDATION,
+    check: ({ page }) => page.metaDescription
+      ? { passed: page.metaDescription.length >= 150, data: { length: page.metaDescription.length } }
+      : null
+  },
+  {
+    id: 'meta-description-too-long',
+    category: 'meta',
+    severity: 'warning',
+    weight: 10,
+    message: 'Meta description is too long ({length} characters) - will be truncated',
+    recommendation: { text: '✂️ Trim the meta description to 150-160 characters', priority: 'Medium' },
+    check: ({ page }) => page.metaDescription
+      ? { passed: page.metaDescription.length <= 160, data: { length: page.metaDescription.length } }
+      : null
+  },
+  {
+    id: 'headings-missing',
+    category: 'headings',
+    severity: 'critical',
+    weight: 15,
+    message: 'No heading tags (H1-H6) found - critical for content structure',
+    recommendation: { text: '🏗️ Implement proper heading structure (H1 for title, H2-H6 for sections)', priority: 'High' },
+    check: ({ page }) => ({ passed: page.headings.length > 0 })
+  },
+  {
+    id: 'headings-too-few',
+    category: 'headings',
+    severity: 'warning',
+    weight: 5,
+    message: 'Low number of headings ({count}) - consider adding more subheadings for better structure',
+    recommendation: { text: '🏗️ Break content into sections with descriptive H2/H3 subheadings', priority: 'Medium' },
+    check: ({ page }) => page.headings.length > 0
+      ? { passed: page.headings.length >= 3, data: { count: page.headings.length } }
+      : null
+  },
+  {
+    id: 'images-none',
+    category: 'images',
+    severity: 'info',
+    weight: 0,
+    message: 'No images found - visual content can improve engagement',
+    check: ({ page }) => ({ passed: page.images.length > 0 })
+  },
+  {
+    id: 'images-too-many',
+    category: 'images',
+    severity: 'warning',
+    weight: 10,
+    message: 'High number of images ({count}) - ensure optimization to prevent slow load times',
+    recommendation: { text: '🖼️ Remove images the page doesn\'t need and compress the rest', priority: 'Medium' },
+    check: ({ page }) => ({ passed: page.images.length <= 20, data: { count: page.images.length } })
+  },
+  {
+    id: 'images-missing-alt',
+    category: 'images',
+    severity: 'warning',
+    weight: 5,
+    message: '{count} of {total} images have no alt attribute',
+    recommendation: { text: '🖼️ Ensure all images have descriptive alt text for accessibility and SEO', priority: 'Medium' },
+    check: ({ page }) => {
+      if (page.images.length === 0) return null;
+      const missing = page.images.filter((img) => img.alt === null).length;
+      return { passed: missing === 0, data: { count: missing, total: page.images.length } };
+    }
+  },
+  {
+    id: 'html-lang-missing',
+    category: 'meta',
+    severity: 'warning',
+    weight: 5,
+    message: 'The <html> element has no lang attribute',
+    recommendation: LANG_RECOMMENDATION,
+    check: ({ page }) => ({ passed: Boolean(page.lang) })
+  },
+  {
+    id: 'html-lang-invalid',
+    category: 'meta',
+    severity: 'warning',
+    weight: 5,
+    message: 'lang="{lang}" is not a valid BCP 47 language tag',
+    recommendation: LANG_RECOMMENDATION,
+    check: ({ page }) => page.lang
+      ? { passed: LANGUAGE_TAG.test(page.lang), data: { lang: page.lang } }
+      : null
+  }
+];
+
+// The registry: every rule that contributes to score, issues and recommendations. Rules
+// run in this order, and issues and equal-priority recommendations keep it.
+export const SEO_RULES: SeoRule[] = [
+  ...INDEXABILITY_RULES,
+  ...PAGE_RULES,
+  ...HEADING_RULES,
+  ...ALT_TEXT_RULES,
+  ...HTTPS_RULES,
+  ...HREFLANG_RULES,
+  ...LINK_RULES,
+  ...CRAWLABILITY_RULES,
+  ...STRUCTURED_DATA_RULES,
+  ...SOCIAL_RULES,
+  ...CONTENT_RULES,
+  ...PERFORMANCE_RULES
+];
+
+function renderMessage(template: string, data: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in data ? String(data[key]) : match));
+}
+
+export function evaluateRules(ctx: RuleContext, rules: SeoRule[] = SEO_RULES): RuleResult[] {
+  return rules.map((rule) => {
+    const outcome = rule.check(ctx);
+    const data = outcome?.data ?? {};
+    const status: RuleStatus = outcome === null ? 'skipped' : outcome.passed ? 'pass' : 'fail';
+    return {
+      id: rule.id,
+      category: rule.category,
+      severity: rule.severity,
+      weight: rule.weight,
+      status,
+      message: status === 'fail' ? renderMessage(rule.message, data) : null,
+      data
+    };
+  });
+}
+
+export function calculateSeoScore(results: RuleResult[]): number {
+  const penalty = results
+    .filter((r) => r.status === 'fail')
+    .reduce((sum, r) => sum + r.weight, 0);
+  return Math.max(0, Math.min(100, 100 - penalty));
+}
+
+export function findSeoIssues(results: RuleResult[]): string[] {
+  return results
+    .filter((r) => r.status === 'fail')
+    .map((r) => `${SEVERITY_ICONS[r.severity]} ${r.message}`);
+}
+
+export function generateRecommendations(results: RuleResult[], rules: SeoRule[] = SEO_RULES): Recommendation[] {
+  const byId = new Map(rules.map((rule) => [rule.id, rule]));
+  const seen = new Set<string>();
+  const recommendations: Recommendation[] = [];
+
+  for (const result of results) {
+    const recommendation = byId.get(result.id)?.recommendation;
+    if (result.status !== 'fail' || !recommendation || seen.has(recommendation.text)) continue;
+    seen.add(recommendation.text);
+    recommendations.push(recommendation);
+  }
+
+  return recommendations.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+}
@@ -0,0 +1,259 @@
+import { FetchError, fetchPublic } from './fetcher';
+import { parsePage } from './parser';
+import { normalizeUrl } from './urls';
+
+// XML sitemap fetching and parsing
+
+export interface SitemapAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+  // <xhtml:link rel="alternate" hreflang="..."> annotations of the entry
+  alternates: SitemapAlternate[];
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex' | 'unknown';
+  entries: SitemapEntry[];
+}
+
+const MAX_CHILD_SITEMAPS = 10;
+// Sitemap protocol limits (sitemaps.org)
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_SITEMAP_URLS = 50000;
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function tagValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'i'));
+  if (!match) return null;
+  return decodeXml(match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')).trim();
+}
+
+function alternatesOf(block: string): SitemapAlternate[] {
+  const alternates: SitemapAlternate[] = [];
+  for (const [, attributes] of block.matchAll(/<(?:\w+:)?link\b([^>]*)>/gi)) {
+    const attrs: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted] of attributes.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attrs[name.toLowerCase()] = decodeXml(doubleQuoted ?? singleQuoted).trim();
+    }
+    if (attrs.rel?.toLowerCase() === 'alternate' && attrs.hreflang && attrs.href) {
+      alternates.push({ hreflang: attrs.hreflang, href: attrs.href });
+    }
+  }
+  return alternates;
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+  const type = /<(?:\w+:)?sitemapindex[\s>]/i.test(xml)
+    ? 'sitemapindex'
+    : /<(?:\w+:)?urlset[\s>]/i.test(xml) ? 'urlset' : 'unknown';
+  const blockTag = type === 'sitemapindex' ? 'sitemap' : 'url';
+  const blocks = xml.match(new RegExp(`<(?:\\w+:)?${blockTag}[\\s>][\\s\\S]*?</(?:\\w+:)?${blockTag}>`, 'gi')) || [];
+
+  const entries = blocks
+    .map((block) => ({ loc: tagValue(block, 'loc') ?? '', lastmod: tagValue(block, 'lastmod'), alternates: alternatesOf(block) }))
+    .filter((entry) => entry.loc);
+
+  return { type, entries };
+}
+
+// Collect page URLs from a sitemap, following one level of sitemap index
+export async function fetchSitemapUrls(sitemapUrl: string, limit: number, userAgent: string): Promise<string[]> {
+  const response = await fetchPublic(sitemapUrl, { userAgent, maxBytes: MAX_SITEMAP_BYTES });
+  if (!response.ok) return [];
+
+  const sitemap = parseSitemap(response.text());
+  if (sitemap.type !== 'sitemapindex') {
+    return sitemap.entries.slice(0, limit).map((e) => e.loc);
+  }
+
+  const urls: string[] = [];
+  for (const child of sitemap.entries.slice(0, MAX_CHILD_SITEMAPS)) {
+    if (urls.length >= limit) break;
+    try {
+      const childResponse = await fetchPublic(child.loc, { userAgent, maxBytes: MAX_SITEMAP_BYTES });
+      if (!childResponse.ok) continue;
+      const childSitemap = parseSitemap(childResponse.text());
+      urls.push(...childSitemap.entries.map((e) => e.loc));
+    } catch {
+      // Skip unreachable child sitemaps
+    }
+  }
+  return urls.slice(0, limit);
+}
+
+// hreflang annotations from sitemaps, keyed by the normalized <loc> of each entry that has
+// any. Follows one level of sitemap index; unreachable files are skipped.
+export async function fetchSitemapAlternates(sitemapUrls: string[], userAgent: string): Promise<Map<string, SitemapAlternate[]>> {
+  const alternates = new Map<string, SitemapAlternate[]>();
+  const load = async (url: string, nested: boolean) => {
+    try {
+      const response = await fetchPublic(url, { userAgent, maxBytes: MAX_SITEMAP_BYTES });
+      if (!response.ok) return;
+      const sitemap = parseSitemap(response.text());
+      if (sitemap.type === 'sitemapindex') {
+        if (nested) return;
+        for (const child of sitemap.entries.slice(0, MAX_CHILD_SITEMAPS)) await load(child.loc, true);
+        return;
+      }
+      for (const entry of sitemap.entries) {
+        if (entry.alternates.length) alternates.set(normalizeUrl(entry.loc), entry.alternates);
+      }
+    } catch {
+      // Skip unreachable sitemaps
+    }
+  };
+
+  for (const url of sitemapUrls) await load(url, false);
+  return alternates;
+}
+
+const MAX_ENTRY_CHECKS = 10;
+const MAX_REPORTED_ENTRIES = 20;
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+export interface SitemapEntryCheck {
+  loc: string;
+  status: number | null;
+  location: string | null;
+  canonical: string | null;
+  problem: string | null;
+}
+
+export interface SitemapAudit {
+  url: string;
+  status: number | null;
+  type: ParsedSitemap['type'] | null;
+  bytes: number;
+  entryCount: number;
+  errors: string[];
+  invalidLastmod: string[];
+  crossHostEntries: string[];
+  entryChecks: SitemapEntryCheck[];
+  children: SitemapAudit[];
+}
+
+async function checkEntry(loc: string, userAgent: string): Promise<SitemapEntryCheck> {
+  const check: SitemapEntryCheck = { loc, status: null, location: null, canonical: null, problem: null };
+  try {
+    const response = await fetchPublic(loc, { userAgent, maxRedirects: 0 });
+    check.status = response.status;
+
+    if (response.status >= 300 && response.status < 400) {
+      check.location = response.headers.get('location');
+      check.problem = `redirects (${response.status}) to ${check.location ?? 'unknown location'}`;
+      return check;
+    }
+    if (response.status !== 200) {
+      check.problem = `returns HTTP ${response.status}`;
+      return check;
+    }
+
+    const page = await parsePage(response.text(), loc);
+    const canonicalHref = page.linkTags.find((tag) => tag.rel.includes('canonical'))?.href;
+    if (canonicalHref) {
+      check.canonical = new URL(canonicalHref, loc).toString();
+      if (check.canonical.replace(/#.*$/, '') !== loc.replace(/#.*$/, '')) {
+        check.problem = `canonicalizes to ${check.canonical}`;
+      }
+    }
+  } catch (error) {
+    check.problem = error instanceof Error ? error.message : 'fetch failed';
+  }
+  return check;
+}
+
+// Validate a sitemap (or sitemap index) against the protocol limits and sample its entries
+export async function auditSitemap(
+  url: string,
+  userAgent: string,
+  budget = { entryChecks: MAX_ENTRY_CHECKS },
+  nested = false
+): Promise<SitemapAudit> {
+  const audit: SitemapAudit = {
+    url,
+    status: null,
+    type: null,
+    bytes: 0,
+    entryCount: 0,
+    errors: [],
+    invalidLastmod: [],
+    crossHostEntries: [],
+    entryChecks: [],
+    children: []
+  };
+
+  let xml: string;
+  try {
+    const response = await fetchPublic(url, { userAgent, maxBytes: MAX_SITEMAP_BYTES });
+    audit.status = response.status;
+    if (!response.ok) {
+      audit.errors.push(`Sitemap returned HTTP ${response.status}`);
+      return audit;
+    }
+    audit.bytes = response.body.byteLength;
+    xml = response.text();
+  } catch (error) {
+    audit.errors.push(error instanceof FetchError && error.code === 'too_large'
+      ? 'Sitemap exceeds the 50MB uncompressed limit'
+      : `Sitemap could not be fetched: ${error instanceof Error ? error.message : 'unknown error'}`);
+    return audit;
+  }
+
+  const sitemap = parseSitemap(xml);
+  audit.type = sitemap.type;
+  audit.entryCount = sitemap.entries.length;
+
+  if (sitemap.type === 'unknown') {
+    audit.errors.push('Document is not a <urlset> or <sitemapindex>');
+    return audit;
+  }
+  if (sitemap.entries.length > MAX_SITEMAP_URLS) {
+    audit.errors.push(`Sitemap lists ${sitemap.entries.length} entries - exceeds the 50,000 limit`);
+  }
+  if (sitemap.entries.length === 0) {
+    audit.errors.push('Sitemap contains no entries');
+  }
+
+  const sitemapHost = new URL(url).hostname;
+  for (const entry of sitemap.entries) {
+    if (entry.lastmod && !W3C_DATETIME.test(entry.lastmod) && audit.invalidLastmod.length < MAX_REPORTED_ENTRIES) {
+      audit.invalidLastmod.push(entry.loc);
+    }
+    try {
+      if (new URL(entry.loc).hostname !== sitemapHost && audit.crossHostEntries.length < MAX_REPORTED_ENTRIES) {
+        audit.crossHostEntries.push(entry.loc);
+      }
+    } catch {
+      audit.errors.push(`Invalid <loc> URL: ${entry.loc}`);
+    }
+  }
+
+  if (sitemap.type === 'sitemapindex') {
+    if (nested) {
+      audit.errors.push('Sitemap index is nested inside another sitemap index');
+      return audit;
+    }
+    for (const child of sitemap.entries.slice(0, MAX_CHILD_SITEMAPS)) {
+      audit.children.push(await auditSitemap(child.loc, userAgent, budget, true));
+    }
+    return audit;
+  }
+
+  const sample = sitemap.entries.slice(0, budget.entryChecks);
+  budget.entryChecks -= sample.length;
+  audit.entryChecks = await Promise.all(sample.map((entry) => checkEntry(entry.loc, userAgent)));
+  return audit;
+}
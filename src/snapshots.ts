@@ -0,0 +1,22 @@
+import type { Bindings } from './types';
+
+// Optional HTML snapshots in R2, content-addressed so an unchanged page is stored once.
+// Without the SNAPSHOTS binding the HTML is not kept anywhere.
+
+function snapshotKey(contentHash: string): string {
+  return `snapshots/${contentHash}.html`;
+}
+
+export async function saveSnapshot(env: Bindings, contentHash: string, html: string): Promise<void> {
+  if (!env.SNAPSHOTS) return;
+  if (await env.SNAPSHOTS.head(snapshotKey(contentHash))) return;
+  await env.SNAPSHOTS.put(snapshotKey(contentHash), html, {
+    httpMetadata: { contentType: 'text/html; charset=utf-8' }
+  });
+}
+
+export async function getSnapshot(env: Bindings, contentHash: string): Promise<string | null> {
+  if (!env.SNAPSHOTS) return null;
+  const object = await env.SNAPSHOTS.get(snapshotKey(contentHash));
+  return object ? object.text() : null;
+}
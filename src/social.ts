@@ -0,0 +1,218 @@
+import { DEFAULT_USER_AGENT } from './fetcher';
+import { probeImage } from './images';
+import { resolveUrl } from './urls';
+import type { ImageProbe } from './images';
+import type { SeoRule } from './rules';
+import type { PageData } from './types';
+
+// Open Graph / Twitter Card audit and normalized share previews
+
+export type SocialPlatform = 'facebook' | 'x' | 'linkedin' | 'slack';
+
+export interface PreviewCard {
+  platform: SocialPlatform;
+  cardType: string;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  url: string;
+  siteName: string | null;
+}
+
+export interface SocialAudit {
+  openGraph: Record<string, string[]>;
+  twitter: Record<string, string[]>;
+  missing: string[];
+  duplicates: string[];
+  relativeImages: string[];
+  image: ImageProbe | null;
+  previews: PreviewCard[];
+}
+
+const REQUIRED_OPEN_GRAPH = ['og:title', 'og:description', 'og:image', 'og:url', 'og:type'];
+
+// Properties that may legitimately repeat (arrays in the Open Graph protocol)
+const REPEATABLE = /^(og:image|og:video|og:audio|og:locale:alternate|article:tag|article:author|music:|video:actor)/;
+
+// Approximate characters each platform shows before truncating
+const DISPLAY_LIMITS: Record<SocialPlatform, { title: number; description: number }> = {
+  facebook: { title: 88, description: 160 },
+  x: { title: 70, description: 200 },
+  linkedin: { title: 119, description: 160 },
+  slack: { title: 150, description: 300 }
+};
+
+function truncate(text: string | null, limit: number): string | null {
+  if (!text) return null;
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text;
+}
+
+function collectTags(page: PageData, prefix: string): Record<string, string[]> {
+  const tags: Record<string, string[]> = {};
+  for (const meta of page.metaTags) {
+    const key = meta.property ?? meta.name;
+    if (!key || !key.startsWith(prefix) || meta.content === null) continue;
+    (tags[key] ??= []).push(meta.content);
+  }
+  return tags;
+}
+
+function first(tags: Record<string, string[]>, key: string): string | null {
+  return tags[key]?.[0] || null;
+}
+
+// Mirror each platform's fallback order: its own tags, then Open Graph, then <title>/meta description
+function buildPreviews(page: PageData, og: Record<string, string[]>, twitter: Record<string, string[]>): PreviewCard[] {
+  const absolute = (value: string | null) => (value ? resolveUrl(value, page.url) : null);
+  const ogTitle = first(og, 'og:title');
+  const ogDescription = first(og, 'og:description');
+  const ogImage = absolute(first(og, 'og:image') ?? first(og, 'og:image:url'));
+  const twitterTitle = first(twitter, 'twitter:title');
+  const twitterDescription = first(twitter, 'twitter:description');
+  const twitterImage = absolute(first(twitter, 'twitter:image') ?? first(twitter, 'twitter:image:src'));
+  const url = absolute(first(og, 'og:url')) ?? page.url;
+  const siteName = first(og, 'og:site_name');
+
+  const card = (
+    platform: SocialPlatform,
+    cardType: string,
+    title: string | null,
+    description: string | null,
+    image: string | null,
+    site: string | null = siteName
+  ): PreviewCard => ({
+    platform,
+    cardType,
+    title: truncate(title, DISPLAY_LIMITS[platform].title),
+    description: truncate(description, DISPLAY_LIMITS[platform].description),
+    image,
+    url,
+    siteName: site
+  });
+
+  return [
+    card('facebook', 'link', ogTitle ?? page.title, ogDescription ?? page.metaDescription, ogImage),
+    card(
+      'x',
+      first(twitter, 'twitter:card') ?? 'summary',
+      twitterTitle ?? ogTitle ?? page.title,
+      twitterDescription ?? ogDescription ?? page.metaDescription,
+      twitterImage ?? ogImage,
+      first(twitter, 'twitter:site') ?? siteName
+    ),
+    card('linkedin', 'link', ogTitle ?? page.title, ogDescription ?? page.metaDescription, ogImage),
+    card(
+      'slack',
+      'unfurl',
+      ogTitle ?? twitterTitle ?? page.title,
+      ogDescription ?? twitterDescription ?? page.metaDescription,
+      ogImage ?? twitterImage
+    )
+  ];
+}
+
+export async function auditSocial(
+  page: PageData,
+  options: { probeImage?: boolean; userAgent?: string } = {}
+): Promise<SocialAudit> {
+  const openGraph = collectTags(page, 'og:');
+  const twitter = collectTags(page, 'twitter:');
+
+  const duplicates = Object.entries({ ...openGraph, ...twitter })
+    .filter(([key, values]) => !REPEATABLE.test(key) && values.length > 1)
+    .map(([key]) => key);
+
+  const imageValues = [
+    ...(openGraph['og:image'] ?? []),
+    ...(twitter['twitter:image'] ?? [])
+  ];
+  const relativeImages = imageValues.filter((value) => !/^https?:\/\//i.test(value));
+
+  const imageUrl = imageValues.length ? resolveUrl(imageValues[0], page.url) : null;
+  const image = imageUrl && options.probeImage !== false ? await probeImage(imageUrl, options.userAgent ?? DEFAULT_USER_AGENT) : null;
+
+  return {
+    openGraph,
+    twitter,
+    missing: REQUIRED_OPEN_GRAPH.filter((key) => !first(openGraph, key)),
+    duplicates,
+    relativeImages,
+    image,
+    previews: buildPreviews(page, openGraph, twitter)
+  };
+}
+
+export const SOCIAL_RULES: SeoRule[] = [
+  {
+    id: 'social-open-graph-missing',
+    category: 'social',
+    severity: 'warning',
+    weight: 5,
+    message: 'Missing Open Graph tags: {tags} - shared links fall back to guessed content',
+    recommendation: { text: '📣 Add og:title, og:description, og:image, og:url and og:type for rich share previews', priority: 'Medium' },
+    check: ({ social }) => social
+      ? { passed: social.missing.length === 0, data: { tags: social.missing.join(', ') } }
+      : null
+  },
+  {
+    id: 'social-twitter-card-missing',
+    category: 'social',
+    severity: 'info',
+    weight: 0,
+    message: 'No twitter:card tag - X shows a small summary card by default',
+    recommendation: { text: '📣 Add twitter:card (summary_large_image) for a large preview on X', priority: 'Low' },
+    check: ({ social }) => social ? { passed: Boolean(first(social.twitter, 'twitter:card')) } : null
+  },
+  {
+    id: 'social-duplicate-tags',
+    category: 'social',
+    severity: 'warning',
+    weight: 5,
+    message: 'Social tags declared more than once: {tags}',
+    recommendation: { text: '📣 Remove duplicate Open Graph/Twitter tags so platforms pick the intended value', priority: 'Medium' },
+    check: ({ social }) => social
+      ? { passed: social.duplicates.length === 0, data: { tags: social.duplicates.join(', ') } }
+      : null
+  },
+  {
+    id: 'social-image-relative',
+    category: 'social',
+    severity: 'warning',
+    weight: 5,
+    message: 'Social image URLs must be absolute: {urls}',
+    recommendation: { text: '📣 Use absolute https:// URLs for og:image and twitter:image', priority: 'Medium' },
+    check: ({ social }) => social
+      ? { passed: social.relativeImages.length === 0, data: { urls: social.relativeImages.join(', ') } }
+      : null
+  },
+  {
+    id: 'social-image-broken',
+    category: 'social',
+    severity: 'warning',
+    weight: 10,
+    message: 'Share image {url} does not load ({reason})',
+    recommendation: { text: '📣 Fix the og:image URL so share previews show an image', priority: 'High' },
+    check: ({ social }) => {
+      const image = social?.image;
+      if (!image) return null;
+      const isImage = image.format !== null || Boolean(image.contentType?.startsWith('image/'));
+      const reason = image.error ?? (image.status !== 200 ? `HTTP ${image.status}` : `content-type ${image.contentType ?? 'unknown'}`);
+      return { passed: image.status === 200 && isImage, data: { url: image.url, reason } };
+    }
+  },
+  {
+    id: 'social-image-small',
+    category: 'social',
+    severity: 'info',
+    weight: 0,
+    message: 'Share image is {width}x{height}px - 1200x630px is recommended for large previews',
+    check: ({ social }) => {
+      const image = social?.image;
+      if (!image?.width || !image.height) return null;
+      return {
+        passed: image.width >= 1200 && image.height >= 630,
+        data: { width: image.width, height: image.height }
+      };
+    }
+  }
+];
@@ -0,0 +1,378 @@
+import type { SeoRule } from './rules';
+import type { ItemValue, PageData, StructuredItem } from './types';
+
+// Structured data (JSON-LD, Microdata, RDFa) extraction and rich-result validation
+
+export interface StructuredDataIssue {
+  path: string;
+  type: string | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface StructuredDataEntity {
+  source: 'json-ld' | 'microdata' | 'rdfa';
+  path: string;
+  types: string[];
+  eligible: boolean;
+  errors: StructuredDataIssue[];
+  warnings: StructuredDataIssue[];
+}
+
+export interface StructuredDataAudit {
+  types: string[];
+  entities: StructuredDataEntity[];
+  parseErrors: StructuredDataIssue[];
+  errors: StructuredDataIssue[];
+  warnings: StructuredDataIssue[];
+}
+
+type ValueKind = 'text' | 'url' | 'date' | 'number' | 'integer' | `@${string}`;
+
+interface TypeSpec {
+  required: string[];
+  // At least one property from each group must be present
+  requiredOneOf?: string[][];
+  recommended: string[];
+  properties?: Record<string, ValueKind>;
+  // Specs applied to nested values of a property
+  nested?: Record<string, string>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const TYPE_SPECS: Record<string, TypeSpec> = {
+  Article: {
+    required: [],
+    recommended: ['headline', 'image', 'author', 'datePublished', 'dateModified'],
+    properties: { headline: 'text', datePublished: 'date', dateModified: 'date', image: 'url' }
+  },
+  Product: {
+    required: ['name'],
+    requiredOneOf: [['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku', 'offers'],
+    properties: { name: 'text', image: 'url' },
+    nested: { offers: 'Offer', aggregateRating: 'AggregateRating', review: 'Review' }
+  },
+  Offer: {
+    required: ['price'],
+    recommended: ['priceCurrency', 'availability', 'url'],
+    properties: { price: 'number', priceCurrency: 'text', url: 'url' }
+  },
+  AggregateRating: {
+    required: ['ratingValue'],
+    requiredOneOf: [['ratingCount', 'reviewCount']],
+    recommended: ['bestRating'],
+    properties: { ratingValue: 'number', ratingCount: 'integer', reviewCount: 'integer', bestRating: 'number' }
+  },
+  Review: {
+    required: ['author', 'reviewRating'],
+    recommended: ['datePublished'],
+    properties: { datePublished: 'date' }
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    properties: { mainEntity: '@Question' },
+    nested: { mainEntity: 'Question' }
+  },
+  Question: {
+    required: ['name', 'acceptedAnswer'],
+    recommended: [],
+    properties: { name: 'text', acceptedAnswer: '@Answer' },
+    nested: { acceptedAnswer: 'Answer' }
+  },
+  Answer: {
+    required: ['text'],
+    recommended: [],
+    properties: { text: 'text' }
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    properties: { itemListElement: '@ListItem' },
+    nested: { itemListElement: 'ListItem' }
+  },
+  ListItem: {
+    required: ['position', 'name'],
+    recommended: ['item'],
+    properties: { position: 'integer', name: 'text' }
+  },
+  Organization: {
+    required: [],
+    recommended: ['name', 'url', 'logo', 'sameAs', 'contactPoint'],
+    properties: { url: 'url', logo: 'url' }
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification', 'priceRange'],
+    properties: { name: 'text', url: 'url', image: 'url', address: '@PostalAddress' }
+  }
+};
+
+// Subtypes validated with their parent's rules
+const TYPE_ALIASES: Record<string, string> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  TechArticle: 'Article',
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  EducationalOrganization: 'Organization',
+  Restaurant: 'LocalBusiness',
+  Store: 'LocalBusiness',
+  Dentist: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  AutomotiveBusiness: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  LodgingBusiness: 'LocalBusiness',
+  Hotel: 'LocalBusiness',
+  AggregateOffer: 'Offer'
+};
+
+// Subtypes accepted wherever the parent type is expected
+const SUBTYPES: Record<string, string[]> = {
+  Offer: ['AggregateOffer']
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function normalizeType(type: string): string {
+  return type.replace(/^https?:\/\/schema\.org\//i, '').replace(/^schema:/i, '');
+}
+
+function typesOf(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return [];
+  const raw = (value as JsonObject)['@type'];
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return list.filter((t): t is string => typeof t === 'string').map(normalizeType);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(isPresent);
+  return true;
+}
+
+function matchesKind(value: unknown, kind: ValueKind): string | null {
+  if (kind.startsWith('@')) {
+    const expected = kind.slice(1);
+    if (typeof value === 'string') return expected === 'PostalAddress' ? null : `expected a ${expected} object but found text`;
+    const types = typesOf(value);
+    const accepted = [expected, ...(SUBTYPES[expected] ?? [])];
+    return types.some((t) => accepted.includes(t)) ? null : `expected @type ${expected} but found ${types.join(', ') || 'no @type'}`;
+  }
+
+  // Objects such as ImageObject carry the URL in their own properties
+  if (value && typeof value === 'object') {
+    return kind === 'url' || kind === 'text' ? null : `expected ${kind} but found an object`;
+  }
+
+  const text = String(value).trim();
+  switch (kind) {
+    case 'url':
+      try {
+        new URL(text);
+        return null;
+      } catch {
+        return text.startsWith('/') ? null : `expected a URL but found "${text}"`;
+      }
+    case 'date':
+      return ISO_DATE.test(text) ? null : `expected an ISO 8601 date but found "${text}"`;
+    case 'number':
+      return text !== '' && Number.isFinite(Number(text)) ? null : `expected a number but found "${text}"`;
+    case 'integer':
+      return /^-?\d+$/.test(text) ? null : `expected an integer but found "${text}"`;
+    default:
+      return typeof value === 'string' || typeof value === 'number' ? null : `expected text but found ${typeof value}`;
+  }
+}
+
+function validateEntity(entity: JsonObject, path: string, specName: string, issues: StructuredDataIssue[]) {
+  const spec = TYPE_SPECS[specName];
+  const report = (severity: StructuredDataIssue['severity'], at: string, message: string) =>
+    issues.push({ path: at, type: specName, severity, message });
+
+  for (const prop of spec.required) {
+    if (!isPresent(entity[prop])) report('error', `${path}.${prop}`, `Missing required property "${prop}" for ${specName}`);
+  }
+  for (const group of spec.requiredOneOf ?? []) {
+    if (!group.some((prop) => isPresent(entity[prop]))) {
+      report('error', path, `${specName} needs at least one of: ${group.join(', ')}`);
+    }
+  }
+  for (const prop of spec.recommended) {
+    if (!isPresent(entity[prop])) report('warning', `${path}.${prop}`, `Missing recommended property "${prop}" for ${specName}`);
+  }
+
+  for (const [prop, kind] of Object.entries(spec.properties ?? {})) {
+    const values = asArray(entity[prop]);
+    values.forEach((value, index) => {
+      const problem = matchesKind(value, kind);
+      const at = values.length > 1 ? `${path}.${prop}[${index}]` : `${path}.${prop}`;
+      if (problem) report('error', at, `Type mismatch: ${problem}`);
+    });
+  }
+
+  for (const [prop, nestedSpec] of Object.entries(spec.nested ?? {})) {
+    const values = asArray(entity[prop]);
+    values.forEach((value, index) => {
+      if (!value || typeof value !== 'object') return;
+      const at = values.length > 1 ? `${path}.${prop}[${index}]` : `${path}.${prop}`;
+      const nestedTypes = typesOf(value).map((t) => TYPE_ALIASES[t] ?? t);
+      // Validate nested values that are typed as expected (or untyped)
+      if (nestedTypes.length === 0 || nestedTypes.includes(nestedSpec)) {
+        validateEntity(value as JsonObject, at, nestedSpec, issues);
+      }
+    });
+  }
+}
+
+// Convert a microdata/RDFa item into the same shape as a JSON-LD node
+function itemToJson(item: StructuredItem): JsonObject {
+  const json: JsonObject = { '@type': item.types.map((t) => normalizeType(t.split(/[#/]/).pop() ?? t)) };
+  for (const [name, values] of Object.entries(item.properties)) {
+    const converted = values.map((v: ItemValue) => (typeof v === 'string' ? v : itemToJson(v)));
+    json[name.replace(/^schema:/i, '')] = converted.length === 1 ? converted[0] : converted;
+  }
+  return json;
+}
+
+// Top-level JSON-LD nodes, flattening arrays and @graph containers
+function jsonLdNodes(data: unknown, path: string): Array<{ node: JsonObject; path: string }> {
+  if (Array.isArray(data)) {
+    return data.flatMap((entry, index) => jsonLdNodes(entry, `${path}[${index}]`));
+  }
+  if (!data || typeof data !== 'object') return [];
+  const node = data as JsonObject;
+  if (Array.isArray(node['@graph'])) {
+    return jsonLdNodes(node['@graph'], `${path}.@graph`);
+  }
+  return [{ node, path }];
+}
+
+function auditNode(
+  node: JsonObject,
+  path: string,
+  source: StructuredDataEntity['source']
+): StructuredDataEntity {
+  const types = typesOf(node);
+  const issues: StructuredDataIssue[] = [];
+
+  if (types.length === 0) {
+    issues.push({ path, type: null, severity: 'error', message: 'Item has no @type' });
+  }
+  for (const type of types) {
+    const specName = TYPE_ALIASES[type] ?? type;
+    if (TYPE_SPECS[specName]) validateEntity(node, path, specName, issues);
+  }
+
+  const errors = issues.filter((i) => i.severity === 'error');
+  return {
+    source,
+    path,
+    types,
+    eligible: errors.length === 0 && types.some((t) => TYPE_SPECS[TYPE_ALIASES[t] ?? t]),
+    errors,
+    warnings: issues.filter((i) => i.severity === 'warning')
+  };
+}
+
+export function auditStructuredData(page: PageData): StructuredDataAudit {
+  const entities: StructuredDataEntity[] = [];
+  const parseErrors: StructuredDataIssue[] = [];
+
+  page.jsonLd.forEach((raw, index) => {
+    const path = `jsonLd[${index}]`;
+    const text = raw.trim().replace(/^<!--/, '').replace(/-->$/, '').replace(/^\/\/<!\[CDATA\[/, '').replace(/\/\/\]\]>$/, '').trim();
+    try {
+      for (const { node, path: nodePath } of jsonLdNodes(JSON.parse(text), path)) {
+        entities.push(auditNode(node, nodePath, 'json-ld'));
+      }
+    } catch (error) {
+      parseErrors.push({
+        path,
+        type: null,
+        severity: 'error',
+        message: `Malformed JSON-LD: ${error instanceof Error ? error.message : 'parse error'}`
+      });
+    }
+  });
+
+  const counters = { microdata: 0, rdfa: 0 };
+  for (const item of page.structuredItems) {
+    const path = `${item.syntax}[${counters[item.syntax]++}]`;
+    entities.push(auditNode(itemToJson(item), path, item.syntax));
+  }
+
+  return {
+    types: [...new Set(entities.flatMap((e) => e.types))],
+    entities,
+    parseErrors,
+    errors: [...parseErrors, ...entities.flatMap((e) => e.errors)],
+    warnings: entities.flatMap((e) => e.warnings)
+  };
+}
+
+function describeIssues(issues: StructuredDataIssue[]): string {
+  return issues.slice(0, 10).map((i) => `${i.path}: ${i.message}`).join('; ');
+}
+
+export const STRUCTURED_DATA_RULES: SeoRule[] = [
+  {
+    id: 'structured-data-missing',
+    category: 'structured-data',
+    severity: 'info',
+    weight: 0,
+    message: 'No structured data (JSON-LD, Microdata or RDFa) found',
+    recommendation: { text: '🧩 Add schema.org structured data (Article, Product, FAQ, etc.) to qualify for rich results', priority: 'Low' },
+    check: ({ structuredData }) => structuredData
+      ? { passed: structuredData.entities.length > 0 || structuredData.parseErrors.length > 0 }
+      : null
+  },
+  {
+    id: 'structured-data-malformed',
+    category: 'structured-data',
+    severity: 'critical',
+    weight: 10,
+    message: '{count} JSON-LD blocks could not be parsed: {details}',
+    recommendation: { text: '🧩 Fix malformed JSON-LD so search engines can read it', priority: 'High' },
+    check: ({ structuredData }) => structuredData
+      ? {
+        passed: structuredData.parseErrors.length === 0,
+        data: { count: structuredData.parseErrors.length, details: describeIssues(structuredData.parseErrors) }
+      }
+      : null
+  },
+  {
+    id: 'structured-data-invalid',
+    category: 'structured-data',
+    severity: 'warning',
+    weight: 10,
+    message: '{count} structured data errors block rich results: {details}',
+    recommendation: { text: '🧩 Add missing required properties and fix type mismatches in structured data', priority: 'Medium' },
+    check: ({ structuredData }) => {
+      if (!structuredData) return null;
+      const errors = structuredData.entities.flatMap((e) => e.errors);
+      return { passed: errors.length === 0, data: { count: errors.length, details: describeIssues(errors) } };
+    }
+  },
+  {
+    id: 'structured-data-incomplete',
+    category: 'structured-data',
+    severity: 'info',
+    weight: 0,
+    message: '{count} recommended structured data properties are missing: {details}',
+    check: ({ structuredData }) => structuredData
+      ? {
+        passed: structuredData.warnings.length === 0,
+        data: { count: structuredData.warnings.length, details: describeIssues(structuredData.warnings) }
+      }
+      : null
+  }
+];
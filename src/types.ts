@@ -0,0 +1,115 @@
+// Worker bindings
+export interface Bindings {
+  AI: any;
+  VECTORIZE: VectorizeIndex;
+  DB: D1Database;
+  CACHE: KVNamespace;
+  // Default destination for watchlist regression alerts
+  ALERT_WEBHOOK_URL?: string;
+  // Page fetcher overrides (see src/fetcher.ts for the defaults)
+  FETCH_USER_AGENT?: string;
+  FETCH_TIMEOUT_MS?: string;
+  FETCH_MAX_BYTES?: string;
+  // Secret that authenticates as admin (see src/auth.ts)
+  ADMIN_API_KEY?: string;
+  // Default per-key request budget for AI-heavy routes
+  RATE_LIMIT_PER_MINUTE?: string;
+  // Comma-separated browser origins allowed by CORS; unset allows any
+  CORS_ORIGINS?: string;
+  // Seconds an analysis result is served from cache (default 3600)
+  ANALYSIS_CACHE_TTL?: string;
+  // Optional store for fetched HTML, keyed by content hash
+  SNAPSHOTS?: R2Bucket;
+}
+
+// Shared data model for parsed pages
+
+export interface Heading {
+  level: number;
+  text: string;
+}
+
+export interface PageImage {
+  src: string;
+  alt: string | null;
+  width: string | null;
+  height: string | null;
+  loading: string | null;
+  // MIME types offered by <source> elements of an enclosing <picture>
+  sourceTypes: string[];
+}
+
+export interface PageLink {
+  href: string;
+  text: string;
+  rel: string[];
+  target: string | null;
+}
+
+export interface MetaTag {
+  name: string | null;
+  property: string | null;
+  httpEquiv: string | null;
+  charset: string | null;
+  content: string | null;
+}
+
+export interface LinkTag {
+  rel: string[];
+  href: string;
+  hreflang: string | null;
+  type: string | null;
+  media: string | null;
+  inHead: boolean;
+}
+
+export interface PageScript {
+  // null for inline scripts
+  src: string | null;
+  type: string | null;
+  async: boolean;
+  defer: boolean;
+  inHead: boolean;
+  // UTF-8 size of an inline script body; 0 for external scripts
+  bytes: number;
+}
+
+export interface PageStyle {
+  media: string | null;
+  inHead: boolean;
+  bytes: number;
+}
+
+export type ItemValue = string | StructuredItem;
+
+// A microdata or RDFa item with its (possibly nested) property values
+export interface StructuredItem {
+  syntax: 'microdata' | 'rdfa';
+  types: string[];
+  id: string | null;
+  properties: Record<string, ItemValue[]>;
+}
+
+export interface PageData {
+  url: string;
+  html: string;
+  lang: string | null;
+  title: string | null;
+  metaDescription: string | null;
+  headings: Heading[];
+  images: PageImage[];
+  links: PageLink[];
+  metaTags: MetaTag[];
+  linkTags: LinkTag[];
+  scripts: PageScript[];
+  styles: PageStyle[];
+  jsonLd: string[];
+  structuredItems: StructuredItem[];
+  // Visible body copy, excluding navigation, scripts and styles
+  bodyText: string;
+  paragraphs: string[];
+}
+
+// Page data as stored and returned with an analysis; the HTML itself is only kept
+// by content hash, in the optional snapshot bucket
+export type StoredPage = Omit<PageData, 'html'>;
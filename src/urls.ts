@@ -0,0 +1,51 @@
+// URL helpers shared by the crawler and link checks
+
+// Resolve an href against a base URL, returning null for unparseable values
+export function resolveUrl(href: string, base: string): string | null {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+export function stripHash(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+export function isHttpUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function hostOf(url: string): string {
+  return new URL(url).hostname.toLowerCase();
+}
+
+// Query parameters that only track campaigns and never change the page
+const TRACKING_PARAMS = /^(utm_[a-z_]+|gclid|fbclid|msclkid|mc_cid|mc_eid)$/i;
+
+// Canonical form used for cache keys and stored history: lowercase scheme and host, no
+// default port, trailing host dot, fragment or tracking parameters, sorted query. The page
+// itself is still fetched at the URL as given. Unparseable values come back unchanged.
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.replace(/\.$/, '');
+  const params = [...parsed.searchParams]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = new URLSearchParams(params).toString();
+  return parsed.toString();
+}
@@ -0,0 +1,7 @@
+// Request parameter helpers shared by the API modules
+
+export function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
@@ -1,6 +1,12 @@
-// Run this script once to populate your Vectorize index with SEO knowledge
+import { ingestDocument } from './knowledge';
+import type { IngestResult } from './knowledge';
+import type { Bindings } from './types';
 
-const SEO_KNOWLEDGE_BASE = [
+// Default SEO knowledge, seeded through the same idempotent ingestion as /api/knowledge.
+// Each entry becomes a document whose id is its category, so re-seeding only re-embeds
+// entries whose text or source changed.
+
+export const SEO_KNOWLEDGE_BASE = [
   {
     category: 'title-tags',
     text: 'Title tags should be 50-60 characters long. They appear in search results and browser tabs. Include your primary keyword near the beginning. Make them compelling to improve click-through rates.',
@@ -78,33 +84,18 @@ const SEO_KNOWLEDGE_BASE = [
   }
 ];
 
-export async function populateVectorize(env: any) {
-  console.log('Starting Vectorize population...');
-  
+export async function populateVectorize(env: Bindings): Promise<IngestResult[]> {
+  const results: IngestResult[] = [];
   for (const item of SEO_KNOWLEDGE_BASE) {
-    // Generate embedding
-    const embedding = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
-      text: item.text
-    });
-
-    // Insert into Vectorize
-    await env.VECTORIZE.insert([
-      {
-        id: crypto.randomUUID(),
-        values: embedding.data[0],
-        metadata: {
-          category: item.category,
-          text: item.text,
-          source: item.source
-        }
-      }
-    ]);
-
-    console.log(`✓ Added: ${item.category}`);
+    results.push(await ingestDocument(env, {
+      id: item.category,
+      title: item.category,
+      content: item.text,
+      format: 'text',
+      category: item.category,
+      source: item.source,
+      version: '1'
+    }));
   }
-
-  console.log('Vectorize population complete!');
+  return results;
 }
-
-// Export for use in setup script
-export { SEO_KNOWLEDGE_BASE };
\ No newline at end of file
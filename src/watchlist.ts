@@ -0,0 +1,421 @@
+import { analyzeSeoMultiStep } from './analyzer';
+import { FetchError, assertPublicUrl, fetchPublic, userAgentFor } from './fetcher';
+import { isHttpUrl, resolveUrl } from './urls';
+import { clampInt } from './validation';
+import type { AnalysisResult } from './analyzer';
+import type { StoredAnalysis } from './history';
+import type { RuleResult } from './rules';
+import type { Bindings, StoredPage } from './types';
+
+// Watched URLs re-analyzed on a schedule, with webhook alerts on regressions
+
+export interface WatchSettings {
+  intervalMinutes: number;
+  // Alert when the score falls by at least this many points since the last check
+  scoreDropThreshold: number;
+  // Falls back to the ALERT_WEBHOOK_URL variable when null
+  webhookUrl: string | null;
+  active: boolean;
+}
+
+// The bits of a run that regressions are detected from, kept on the watch row
+export interface WatchSignals {
+  analysisId: number;
+  // null when an llm-mode review failed
+  score: number | null;
+  title: string | null;
+  noindex: boolean;
+  canonical: string | null;
+  failingCritical: string[];
+}
+
+export type RegressionType = 'score-drop' | 'title-removed' | 'noindex-added' | 'canonical-changed' | 'critical-rule' | 'fetch-failed';
+
+export interface Regression {
+  type: RegressionType;
+  ruleId: string | null;
+  message: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+interface WatchRow {
+  id: number;
+  url: string;
+  interval_minutes: number;
+  score_drop_threshold: number;
+  webhook_url: string | null;
+  active: number;
+  last_signals: string | null;
+  last_checked_at: string | null;
+  last_error: string | null;
+  next_run_at: string;
+  project_id: number | null;
+  created_at: string;
+}
+
+const DEFAULT_SETTINGS: WatchSettings = {
+  intervalMinutes: 1440,
+  scoreDropThreshold: 10,
+  webhookUrl: null,
+  active: true
+};
+
+const MIN_INTERVAL_MINUTES = 15;
+const MAX_INTERVAL_MINUTES = 43200;
+const WATCHES_PER_TICK = 3;
+const ALERT_DEDUPE_HOURS = 24;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Webhook response bodies are ignored
+const WEBHOOK_MAX_RESPONSE_BYTES = 1024;
+
+export function normalizeWatchSettings(
+  input: Record<string, unknown>,
+  current: WatchSettings = DEFAULT_SETTINGS
+): WatchSettings | { error: string } {
+  const webhookUrl = (input.webhookUrl === undefined ? current.webhookUrl : input.webhookUrl) as string | null;
+  if (webhookUrl !== null && (typeof webhookUrl !== 'string' || !isHttpUrl(webhookUrl))) {
+    return { error: 'webhookUrl must be an http(s) URL or null' };
+  }
+  if (webhookUrl !== null) {
+    // Webhooks are posted from the worker, so they can't point into the private network
+    try {
+      assertPublicUrl(webhookUrl);
+    } catch (error) {
+      return { error: `webhookUrl is not allowed: ${error instanceof Error ? error.message : 'invalid URL'}` };
+    }
+  }
+
+  return {
+    intervalMinutes: clampInt(input.intervalMinutes, current.intervalMinutes, MIN_INTERVAL_MINUTES, MAX_INTERVAL_MINUTES),
+    scoreDropThreshold: clampInt(input.scoreDropThreshold, current.scoreDropThreshold, 1, 100),
+    webhookUrl,
+    active: typeof input.active === 'boolean' ? input.active : current.active
+  };
+}
+
+function toWatch(row: WatchRow) {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    url: row.url,
+    intervalMinutes: row.interval_minutes,
+    scoreDropThreshold: row.score_drop_threshold,
+    webhookUrl: row.webhook_url,
+    active: row.active === 1,
+    lastSignals: row.last_signals ? (JSON.parse(row.last_signals) as WatchSignals) : null,
+    lastCheckedAt: row.last_checked_at,
+    lastError: row.last_error,
+    nextRunAt: row.next_run_at,
+    createdAt: row.created_at
+  };
+}
+
+export type Watch = ReturnType<typeof toWatch>;
+
+function settingsOf(watch: Watch): WatchSettings {
+  return {
+    intervalMinutes: watch.intervalMinutes,
+    scoreDropThreshold: watch.scoreDropThreshold,
+    webhookUrl: watch.webhookUrl,
+    active: watch.active
+  };
+}
+
+export async function createWatch(
+  env: Bindings,
+  url: string,
+  settings: WatchSettings,
+  projectId: number | null = null
+): Promise<Watch> {
+  // New watches are due immediately so the first check sets the baseline
+  const created = await env.DB.prepare(
+    `INSERT INTO watchlist (url, interval_minutes, score_drop_threshold, webhook_url, active, next_run_at, project_id)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?)`
+  ).bind(url, settings.intervalMinutes, settings.scoreDropThreshold, settings.webhookUrl, settings.active ? 1 : 0, projectId).run();
+  return getWatch(env, created.meta.last_row_id);
+}
+
+// Lookups take the caller's project; null (the admin key) sees every watch
+export async function getWatch(env: Bindings, id: number, projectId: number | null = null): Promise<Watch | null> {
+  const row = await env.DB.prepare(
+    'SELECT * FROM watchlist WHERE id = ?1 AND (?2 IS NULL OR project_id = ?2)'
+  ).bind(id, projectId).first<WatchRow>();
+  return row ? toWatch(row) : null;
+}
+
+export async function listWatches(env: Bindings, projectId: number | null = null): Promise<Watch[]> {
+  const { results } = await env.DB.prepare(
+    'SELECT * FROM watchlist WHERE ?1 IS NULL OR project_id = ?1 ORDER BY id'
+  ).bind(projectId).all<WatchRow>();
+  return results.map(toWatch);
+}
+
+export async function updateWatch(
+  env: Bindings,
+  id: number,
+  input: Record<string, unknown>,
+  projectId: number | null = null
+): Promise<Watch | { error: string } | null> {
+  const watch = await getWatch(env, id, projectId);
+  if (!watch) return null;
+
+  const settings = normalizeWatchSettings(input, settingsOf(watch));
+  if ('error' in settings) return settings;
+
+  await env.DB.prepare(
+    `UPDATE watchlist SET interval_minutes = ?, score_drop_threshold = ?, webhook_url = ?, active = ? WHERE id = ?`
+  ).bind(settings.intervalMinutes, settings.scoreDropThreshold, settings.webhookUrl, settings.active ? 1 : 0, id).run();
+  return getWatch(env, id);
+}
+
+export async function deleteWatch(env: Bindings, id: number, projectId: number | null = null): Promise<boolean> {
+  if (!await getWatch(env, id, projectId)) return false;
+
+  const [deleted] = await env.DB.batch([
+    env.DB.prepare('DELETE FROM watchlist WHERE id = ?').bind(id),
+    env.DB.prepare('DELETE FROM watch_alerts WHERE watch_id = ?').bind(id)
+  ]);
+  return (deleted.meta.changes ?? 0) > 0;
+}
+
+export async function listAlerts(env: Bindings, watchId: number, limit = 50) {
+  const { results } = await env.DB.prepare(
+    `SELECT id, analysis_id, type, rule_id, message, status, response_status, error, created_at
+     FROM watch_alerts WHERE watch_id = ? ORDER BY id DESC LIMIT ?`
+  ).bind(watchId, limit).all<{
+    id: number;
+    analysis_id: number;
+    type: RegressionType;
+    rule_id: string | null;
+    message: string;
+    status: string;
+    response_status: number | null;
+    error: string | null;
+    created_at: string;
+  }>();
+
+  return results.map((r) => ({
+    id: r.id,
+    analysisId: r.analysis_id,
+    type: r.type,
+    ruleId: r.rule_id,
+    message: r.message,
+    status: r.status,
+    responseStatus: r.response_status,
+    error: r.error,
+    createdAt: r.created_at
+  }));
+}
+
+// Meta tags and X-Robots-Tag, from the indexability audit. Analyses stored before it
+// existed only have the meta tags.
+function isNoindex(page: StoredPage, analysis: StoredAnalysis): boolean {
+  if (analysis.indexability) return analysis.indexability.robots.noindex.length > 0;
+  return page.metaTags.some((meta) =>
+    (meta.name === 'robots' || meta.name === 'googlebot')
+    && /\b(noindex|none)\b/i.test(meta.content ?? '')
+  );
+}
+
+export function pageSignals(analysisId: number, page: StoredPage, analysis: StoredAnalysis): WatchSignals {
+  const canonical = page.linkTags.find((tag) => tag.rel.includes('canonical'));
+  return {
+    analysisId,
+    score: analysis.score,
+    title: page.title,
+    noindex: isNoindex(page, analysis),
+    canonical: canonical ? resolveUrl(canonical.href, page.url) : null,
+    failingCritical: analysis.rules.filter((r) => r.severity === 'critical' && r.status === 'fail').map((r) => r.id)
+  };
+}
+
+// A check whose page could not be fetched, or answered with an error status
+function fetchFailure(error: FetchError): Regression {
+  return {
+    type: 'fetch-failed',
+    ruleId: null,
+    message: error.upstreamStatus
+      ? `The page returned HTTP ${error.upstreamStatus}`
+      : `The page could not be fetched: ${error.message}`,
+    before: null,
+    after: error.upstreamStatus ?? error.code
+  };
+}
+
+export function detectRegressions(
+  previous: WatchSignals,
+  current: WatchSignals,
+  rules: RuleResult[],
+  scoreDropThreshold: number
+): Regression[] {
+  const regressions: Regression[] = [];
+
+  const drop = previous.score !== null && current.score !== null ? previous.score - current.score : 0;
+  if (drop >= scoreDropThreshold) {
+    regressions.push({
+      type: 'score-drop',
+      ruleId: null,
+      message: `SEO score dropped by ${drop} points (${previous.score} → ${current.score})`,
+      before: previous.score,
+      after: current.score
+    });
+  }
+
+  if (previous.title && !current.title) {
+    regressions.push({ type: 'title-removed', ruleId: 'title-missing', message: 'The title tag was removed', before: previous.title, after: null });
+  }
+
+  if (!previous.noindex && current.noindex) {
+    regressions.push({ type: 'noindex-added', ruleId: 'noindex', message: 'A noindex robots directive was added', before: null, after: 'noindex' });
+  }
+
+  if (previous.canonical && previous.canonical !== current.canonical) {
+    regressions.push({
+      type: 'canonical-changed',
+      ruleId: null,
+      message: `Canonical URL changed from ${previous.canonical} to ${current.canonical ?? 'none'}`,
+      before: previous.canonical,
+      after: current.canonical
+    });
+  }
+
+  // Any other critical rule that passed last time and fails now
+  const reported = new Set(regressions.map((r) => r.ruleId));
+  for (const ruleId of current.failingCritical) {
+    if (previous.failingCritical.includes(ruleId) || reported.has(ruleId)) continue;
+    const rule = rules.find((r) => r.id === ruleId);
+    regressions.push({ type: 'critical-rule', ruleId, message: rule?.message ?? ruleId, before: 'pass', after: 'fail' });
+  }
+
+  return regressions;
+}
+
+function dedupeKey(regression: Regression): string {
+  return [regression.type, regression.ruleId ?? '', regression.after ?? ''].join('|');
+}
+
+async function postWebhook(url: string, payload: unknown, userAgent: string): Promise<{ status: number | null; error: string | null }> {
+  try {
+    // Redirects aren't followed, so a 3xx counts as a failed delivery
+    const response = await fetchPublic(url, {
+      userAgent,
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(payload),
+      maxRedirects: 0,
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+      maxBytes: WEBHOOK_MAX_RESPONSE_BYTES,
+      truncate: true
+    });
+    return { status: response.status, error: response.ok ? null : `Webhook responded with HTTP ${response.status}` };
+  } catch (error) {
+    return { status: null, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+// Send one webhook for the regressions that were not already alerted recently, and record each one
+// A failed check has no analysis or signals of its own (analysisId and current are null)
+async function sendAlerts(
+  env: Bindings,
+  watch: Watch,
+  analysisId: number | null,
+  previous: WatchSignals,
+  current: WatchSignals | null,
+  regressions: Regression[]
+) {
+  const { results: recent } = await env.DB.prepare(
+    `SELECT dedupe_key FROM watch_alerts
+     WHERE watch_id = ? AND status = 'sent' AND created_at > datetime('now', ?)`
+  ).bind(watch.id, `-${ALERT_DEDUPE_HOURS} hours`).all<{ dedupe_key: string }>();
+  const alreadySent = new Set(recent.map((r) => r.dedupe_key));
+
+  const fresh = regressions.filter((r) => !alreadySent.has(dedupeKey(r)));
+  if (!fresh.length) return [];
+
+  const webhookUrl = watch.webhookUrl ?? env.ALERT_WEBHOOK_URL ?? null;
+  const payload = {
+    event: 'seo.regression',
+    watchId: watch.id,
+    url: watch.url,
+    analysisId,
+    previousAnalysisId: previous.analysisId,
+    score: current?.score ?? null,
+    previousScore: previous.score,
+    regressions: fresh,
+    detectedAt: new Date().toISOString()
+  };
+  const delivery = webhookUrl
+    ? await postWebhook(webhookUrl, payload, userAgentFor(env))
+    : { status: null, error: 'No webhook URL configured' };
+  const status = delivery.error ? 'failed' : 'sent';
+
+  // Alerts for a failed check point at the last analysis that succeeded
+  await env.DB.batch(fresh.map((r) => env.DB.prepare(
+    `INSERT INTO watch_alerts (watch_id, analysis_id, type, rule_id, dedupe_key, message, payload, status, response_status, error)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    watch.id, analysisId ?? previous.analysisId, r.type, r.ruleId, dedupeKey(r), r.message,
+    JSON.stringify(payload), status, delivery.status, delivery.error
+  )));
+
+  return fresh;
+}
+
+// Re-analyze one watched URL, compare against the last check and alert on regressions.
+// A page that can't be fetched (an error status, a timeout, a blocked redirect) is a
+// regression too; the last good check stays the baseline.
+export async function checkWatch(env: Bindings, watch: Watch) {
+  let result: AnalysisResult;
+  try {
+    result = await analyzeSeoMultiStep(watch.url, env, { checkResources: false, projectId: watch.projectId });
+  } catch (error) {
+    if (!(error instanceof FetchError)) throw error;
+    const regressions = [fetchFailure(error)];
+    const previous = watch.lastSignals;
+    const alerted = previous ? await sendAlerts(env, watch, null, previous, null, regressions) : [];
+    await env.DB.prepare(
+      'UPDATE watchlist SET last_error = ?, last_checked_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).bind(error.message, watch.id).run();
+    return { analysisId: null, score: null, error: error.toJSON(), regressions, alerted };
+  }
+
+  const { analysisId, pageData, analysis } = result;
+  const current = pageSignals(analysisId, pageData, analysis);
+  const previous = watch.lastSignals;
+
+  const regressions = previous ? detectRegressions(previous, current, analysis.rules, watch.scoreDropThreshold) : [];
+  const alerted = previous && regressions.length
+    ? await sendAlerts(env, watch, analysisId, previous, current, regressions)
+    : [];
+
+  await env.DB.prepare(
+    `UPDATE watchlist SET last_signals = ?, last_error = NULL, last_checked_at = CURRENT_TIMESTAMP WHERE id = ?`
+  ).bind(JSON.stringify(current), watch.id).run();
+
+  return { analysisId, score: analysis.score, regressions, alerted };
+}
+
+// Check watches whose schedule is due (used by the cron trigger)
+export async function runDueWatches(env: Bindings, limit = WATCHES_PER_TICK): Promise<void> {
+  const { results } = await env.DB.prepare(
+    `SELECT * FROM watchlist WHERE active = 1 AND next_run_at <= CURRENT_TIMESTAMP ORDER BY next_run_at LIMIT ?`
+  ).bind(limit).all<WatchRow>();
+
+  for (const row of results) {
+    // Move the schedule forward first so an overlapping tick doesn't pick the same watch
+    const claimed = await env.DB.prepare(
+      `UPDATE watchlist SET next_run_at = datetime('now', ?) WHERE id = ? AND next_run_at = ?`
+    ).bind(`+${row.interval_minutes} minutes`, row.id, row.next_run_at).run();
+    if (!claimed.meta.changes) continue;
+
+    // Unexpected failures are kept on the watch rather than stopping the other checks
+    try {
+      await checkWatch(env, toWatch(row));
+    } catch (error) {
+      await env.DB.prepare(
+        'UPDATE watchlist SET last_error = ?, last_checked_at = CURRENT_TIMESTAMP WHERE id = ?'
+      ).bind(error instanceof Error ? error.message : String(error), row.id).run();
+    }
+  }
+}
@@ -1,171 +1,665 @@
  import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { streamSSE } from 'hono/streaming';
+import { analyzeSeoMultiStep } from './analyzer';
+import { parseChatRequest, prepareChat, recordChatTurn, runAssistant } from './assistant';
+import {
+  authenticate,
+  corsOrigin,
+  createApiKey,
+  createProject,
+  getProject,
+  listApiKeys,
+  listProjects,
+  normalizeKeyInput,
+  rateLimit,
+  requireAdmin,
+  revokeApiKey
+} from './auth';
+import {
+  advanceBatches,
+  cancelBatch,
+  createBatch,
+  getBatch,
+  normalizeBatchOptions,
+  parseCsvUrls,
+  prepareBatchUrls,
+  processBatchChunk,
+  resumeBatch
+} from './batch';
+import { invalidateAnalysisCache, readCachedAnalysis } from './cache';
+import { canAccessSession, CHAT_MODEL, clearTranscript, getTranscript, readModelEvents } from './chat';
+import { advanceCrawls, createCrawl, getCrawlReport, normalizeCrawlOptions, processCrawlChunk } from './crawl';
+import { DEFAULT_MAX_DISTANCE, getDuplicateReport, MAX_DISTANCE_LIMIT } from './duplicates';
+import { FetchError } from './fetcher';
+import {
+  backfillAnalyses,
+  diffAnalyses,
+  getAnalysis,
+  getUrlHistory,
+  listRecentAnalyses,
+  normalizeHistoryQuery
+} from './history';
+import {
+  deleteDocuments,
+  getDocument,
+  ingestDocument,
+  listDocuments,
+  normalizeKnowledgeInput,
+  reembedDocuments
+} from './knowledge';
+import { ANALYSIS_MODES } from './llm-review';
+import { getAnalysisReport, getCrawlIssues, renderAnalysisReport, renderCrawlReport, REPORT_FORMATS } from './report';
+import { getSnapshot } from './snapshots';
+import { isHttpUrl } from './urls';
+import { clampInt } from './validation';
+import { populateVectorize } from './vectorize-setup';
+import {
+  checkWatch,
+  createWatch,
+  deleteWatch,
+  getWatch,
+  listAlerts,
+  listWatches,
+  normalizeWatchSettings,
+  runDueWatches,
+  updateWatch
+} from './watchlist';
+import type { Context } from 'hono';
+import type { PreparedChat } from './assistant';
+import type { AppEnv } from './auth';
+import type { KnowledgeInput } from './knowledge';
+import type { RenderedReport, ReportFormat } from './report';
+import type { Bindings } from './types';
+
+const app = new Hono<AppEnv>();
+
+// Reports default to JSON
+function parseReportFormat(value: string | undefined): ReportFormat | null {
+  const format = (value ?? 'json').toLowerCase();
+  if (format === 'markdown') return 'md';
+  return REPORT_FORMATS.includes(format as ReportFormat) ? (format as ReportFormat) : null;
+}
 
-interface Bindings {
-  AI: any;
-  VECTORIZE: VectorizeIndex;
-  DB: D1Database;
-  CACHE: KVNamespace;
+function sendReport(c: Context<AppEnv>, report: RenderedReport) {
+  return c.body(report.body, 200, {
+    'Content-Type': report.contentType,
+    'Content-Disposition': `inline; filename="${report.filename}"`
+  });
 }
 
-const app = new Hono<{ Bindings: Bindings }>();
+app.use('/*', cors({
+  origin: corsOrigin,
+  allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+  exposeHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'Retry-After']
+}));
 
-app.use('/*', cors());
+// Every API route except the health check needs a key
+app.use('/api/*', authenticate);
 
 // Health check
 app.get('/api/health', (c) => {
   return c.json({ status: 'ok', message: 'SEO Agent is running' });
 });
 
-// SEO Analysis Function (replaces Workflow)
-async function analyzeSeoMultiStep(url: string, env: Bindings) {
-  // Step 1: Scrape the URL
-  const response = await fetch(url);
-  const html = await response.text();
-  
-  const pageData = {
-    html,
-    title: extractTitle(html),
-    metaDescription: extractMetaDescription(html),
-    headings: extractHeadings(html),
-    images: extractImages(html),
-    links: extractLinks(html)
-  };
-
-  // Step 2: Generate embeddings and query RAG
-  const queryText = `SEO analysis for: ${pageData.title}. Meta: ${pageData.metaDescription}`;
-  
-  const embedding = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
-    text: queryText
-  });
-
-  const ragResults = await env.VECTORIZE.query(embedding.data[0], {
-    topK: 10,
-    returnMetadata: true
-  });
-
-  const ragContext = ragResults.matches
-    .map((m) => m.metadata?.text || '')
-    .filter(Boolean)
-    .join('\n\n');
-
-  // Step 3: Rule-based analysis (reliable and deterministic)
-  const analysis = {
-    score: calculateSeoScore(pageData),
-    issues: findSeoIssues(pageData),
-    recommendations: generateRecommendations(pageData),
-    ragContext: ragContext.substring(0, 500) // Include some RAG context for display
-  };
-
-  // Step 4: Save to D1
-  await env.DB.prepare(
-    `INSERT INTO seo_analyses (url, analysis_data, score, recommendations)
-     VALUES (?, ?, ?, ?)`
-  ).bind(
-    url,
-    JSON.stringify(pageData),
-    analysis.score,
-    JSON.stringify(analysis.recommendations)
-  ).run();
-  
-
-  // Step 5: Cache results
-  await env.CACHE.put(
-    `analysis:${url}`,
-    JSON.stringify({ pageData, analysis }),
-    { expirationTtl: 3600 }
-  );
-
-  return { pageData, analysis };
-}
-  
-
 // Start SEO analysis
-app.post('/api/analyze', async (c) => {
+app.post('/api/analyze', rateLimit, async (c) => {
   try {
     const body = await c.req.json();
-    const { url } = body;
+    const { url, targetKeyword, secondaryKeywords, mode } = body;
     
     if (!url) {
       return c.json({ error: 'URL is required' }, 400);
     }
 
+    if (targetKeyword !== undefined && typeof targetKeyword !== 'string') {
+      return c.json({ error: 'targetKeyword must be a string' }, 400);
+    }
+
+    if (secondaryKeywords !== undefined
+      && (!Array.isArray(secondaryKeywords) || secondaryKeywords.some((k) => typeof k !== 'string'))) {
+      return c.json({ error: 'secondaryKeywords must be an array of strings' }, 400);
+    }
+
+    if (mode !== undefined && !ANALYSIS_MODES.includes(mode)) {
+      return c.json({ error: `mode must be one of: ${ANALYSIS_MODES.join(', ')}` }, 400);
+    }
+
+    // ?refresh=true or Cache-Control: no-cache skips the cache and the conditional fetch
+    const refresh = c.req.query('refresh') === 'true' || /\bno-cache\b/i.test(c.req.header('cache-control') ?? '');
+    const options = { targetKeyword, secondaryKeywords, mode, projectId: c.get('auth').projectId, refresh };
+
     // Check cache first
-    
-    const cached = await c.env.CACHE.get(`analysis:${url}`);
+    const cached = refresh ? null : await readCachedAnalysis(c.env, url, options);
     if (cached) {
       return c.json({ 
         cached: true, 
-        data: JSON.parse(cached),
+        data: cached,
         message: 'Retrieved from cache'
       });
     }
-      
 
     // Run analysis
-    const result = await analyzeSeoMultiStep(url, c.env);
+    const result = await analyzeSeoMultiStep(url, c.env, options);
 
     return c.json({ 
       cached: false,
+      notModified: result.notModified,
       data: result,
-      message: 'Analysis complete'
+      message: result.notModified ? 'Page not modified since the last analysis' : 'Analysis complete'
     });
   } catch (error) {
+    if (error instanceof FetchError) {
+      return c.json(error.toJSON(), error.status);
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return c.json({ error: errorMessage }, 500);
   }
 });
 
-// Chat endpoint for conversational SEO advice
-app.post('/api/chat', async (c) => {
+// Drop cached results for a URL (all modes and keywords) so the next analysis runs in full
+app.delete('/api/cache', async (c) => {
+  const url = c.req.query('url');
+
+  if (!url || !isHttpUrl(url)) {
+    return c.json({ error: 'A valid http(s) url query parameter is required' }, 400);
+  }
+
+  const deleted = await invalidateAnalysisCache(c.env, url, c.get('auth').projectId);
+  return c.json({ url, deleted });
+});
+
+// Start a multi-page site crawl
+app.post('/api/crawls', rateLimit, async (c) => {
   try {
     const body = await c.req.json();
-    const { message, sessionId } = body;
+    const { url } = body;
+
+    if (!url || !isHttpUrl(url)) {
+      return c.json({ error: 'A valid http(s) seed URL is required' }, 400);
+    }
+
+    const options = normalizeCrawlOptions(body);
+    const crawlId = await createCrawl(url, options, c.env, c.get('auth').projectId);
+
+    // Kick off the first chunk without holding the response
+    c.executionCtx.waitUntil(processCrawlChunk(crawlId, c.env));
+
+    return c.json({ crawlId, status: 'running', options }, 202);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Crawl progress and site-level aggregates
+app.get('/api/crawls/:id', async (c) => {
+  try {
+    const crawlId = Number(c.req.param('id'));
+    const report = await getCrawlReport(crawlId, c.env, c.get('auth').projectId);
+
+    if (!report) {
+      return c.json({ error: 'Crawl not found' }, 404);
+    }
+
+    // Polling also nudges an unfinished crawl forward; the lease prevents overlap
+    if (report.status === 'running') {
+      c.executionCtx.waitUntil(processCrawlChunk(crawlId, c.env));
+    }
+
+    return c.json(report);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Site-level report aggregated across every analyzed page of a crawl
+app.get('/api/crawls/:id/report', async (c) => {
+  try {
+    const format = parseReportFormat(c.req.query('format'));
+    if (!format) {
+      return c.json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` }, 400);
+    }
+
+    const crawlId = Number(c.req.param('id'));
+    const crawl = await getCrawlReport(crawlId, c.env, c.get('auth').projectId);
+    if (!crawl) {
+      return c.json({ error: 'Crawl not found' }, 404);
+    }
+
+    return sendReport(c, renderCrawlReport(crawl, await getCrawlIssues(c.env, crawlId), format));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Process the next chunk of a crawl synchronously
+app.post('/api/crawls/:id/resume', rateLimit, async (c) => {
+  try {
+    const crawlId = Number(c.req.param('id'));
+    const { projectId } = c.get('auth');
+
+    if (!await getCrawlReport(crawlId, c.env, projectId)) {
+      return c.json({ error: 'Crawl not found' }, 404);
+    }
+
+    const processed = await processCrawlChunk(crawlId, c.env);
+    return c.json({ processed, ...await getCrawlReport(crawlId, c.env, projectId) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Start a batch analysis from a URL list (JSON), a CSV body or a multipart CSV upload
+app.post('/api/batches', rateLimit, async (c) => {
+  try {
+    const contentType = c.req.header('content-type') ?? '';
+    let input: Record<string, unknown>;
+    let rawUrls: string[];
+
+    if (contentType.startsWith('multipart/form-data')) {
+      const form = await c.req.parseBody();
+      const file = form.file;
+      input = form;
+      rawUrls = file instanceof File ? parseCsvUrls(await file.text()) : parseCsvUrls(String(form.urls ?? ''));
+    } else if (contentType.startsWith('text/csv') || contentType.startsWith('text/plain')) {
+      input = c.req.query();
+      rawUrls = parseCsvUrls(await c.req.text());
+    } else {
+      input = await c.req.json();
+      if (input.urls !== undefined && !Array.isArray(input.urls)) {
+        return c.json({ error: 'urls must be an array' }, 400);
+      }
+      rawUrls = Array.isArray(input.urls) ? input.urls : parseCsvUrls(typeof input.csv === 'string' ? input.csv : '');
+    }
+
+    const options = normalizeBatchOptions(input);
+    if ('error' in options) {
+      return c.json(options, 400);
+    }
+    const prepared = prepareBatchUrls(rawUrls);
+    if ('error' in prepared) {
+      return c.json(prepared, 400);
+    }
+
+    const batchId = await createBatch(prepared.urls, options, c.env, c.get('auth').projectId);
+
+    // Kick off the first chunk without holding the response
+    c.executionCtx.waitUntil(processBatchChunk(batchId, c.env));
+
+    return c.json({ batchId, status: 'running', total: prepared.urls.length, rejected: prepared.rejected, options }, 202);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Batch progress with per-URL status, scores and failures
+app.get('/api/batches/:id', async (c) => {
+  try {
+    const batchId = Number(c.req.param('id'));
+    const batch = await getBatch(batchId, c.env, c.get('auth').projectId);
+
+    if (!batch) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
 
-    // Get relevant SEO knowledge from Vectorize
-    const queryEmbedding = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-      text: message
+    // Polling also nudges an unfinished batch forward; the lease prevents overlap
+    if (batch.status === 'running') {
+      c.executionCtx.waitUntil(processBatchChunk(batchId, c.env));
+    }
+
+    return c.json(batch);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Cancel a running batch; URLs already being analyzed finish
+app.post('/api/batches/:id/cancel', async (c) => {
+  try {
+    const batchId = Number(c.req.param('id'));
+    const { projectId } = c.get('auth');
+
+    if (!await getBatch(batchId, c.env, projectId)) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    const cancelled = await cancelBatch(batchId, c.env);
+    const batch = await getBatch(batchId, c.env, projectId);
+    if (!cancelled) {
+      return c.json({ error: `Batch is already ${batch.status}` }, 409);
+    }
+
+    return c.json(batch);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Resume a cancelled batch (optionally retrying failed URLs) and process the next chunk
+app.post('/api/batches/:id/resume', rateLimit, async (c) => {
+  try {
+    const batchId = Number(c.req.param('id'));
+    const { projectId } = c.get('auth');
+    const body = await c.req.json().catch(() => ({}));
+
+    if (!await getBatch(batchId, c.env, projectId)) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    await resumeBatch(batchId, c.env, body.retryFailed === true);
+    const processed = await processBatchChunk(batchId, c.env);
+
+    return c.json({ processed, ...await getBatch(batchId, c.env, projectId) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Get one stored analysis with its structured issues
+app.get('/api/analyses/:id', async (c) => {
+  try {
+    const record = await getAnalysis(c.env, Number(c.req.param('id')), c.get('auth').projectId);
+
+    if (!record) {
+      return c.json({ error: 'Analysis not found' }, 404);
+    }
+
+    return c.json(record);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Download a stored analysis as a Markdown, HTML, CSV or JSON report
+app.get('/api/analyses/:id/report', async (c) => {
+  try {
+    const format = parseReportFormat(c.req.query('format'));
+    if (!format) {
+      return c.json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` }, 400);
+    }
+
+    const report = await getAnalysisReport(c.env, Number(c.req.param('id')), c.get('auth').projectId);
+    if (!report) {
+      return c.json({ error: 'Analysis not found' }, 404);
+    }
+
+    return sendReport(c, renderAnalysisReport(report, format));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// The HTML an analysis was run on, when snapshots are enabled
+app.get('/api/analyses/:id/snapshot', async (c) => {
+  try {
+    const record = await getAnalysis(c.env, Number(c.req.param('id')), c.get('auth').projectId);
+
+    if (!record) {
+      return c.json({ error: 'Analysis not found' }, 404);
+    }
+
+    const contentHash = record.analysis?.fetch?.contentHash ?? record.contentHash;
+    const html = contentHash ? await getSnapshot(c.env, contentHash) : null;
+    if (html === null) {
+      return c.json({ error: 'No snapshot stored for this analysis' }, 404);
+    }
+
+    // Served as plain text so the captured page can't run scripts on this origin
+    return c.body(html, 200, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Content-Hash': contentHash });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Diff two analysis runs: score delta, resolved/new issues and changed page fields
+app.get('/api/analyses/:a/diff/:b', async (c) => {
+  try {
+    const { projectId } = c.get('auth');
+    const [base, target] = await Promise.all([
+      getAnalysis(c.env, Number(c.req.param('a')), projectId),
+      getAnalysis(c.env, Number(c.req.param('b')), projectId)
+    ]);
+
+    if (!base || !target) {
+      return c.json({ error: 'Analysis not found' }, 404);
+    }
+
+    return c.json(diffAnalyses(base, target));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Analysis history for one URL (URL-encoded in the path), with paging and a date range
+app.get('/api/urls/:url/history', async (c) => {
+  try {
+    const url = c.req.param('url');
+    const query = normalizeHistoryQuery(c.req.query());
+
+    if ('error' in query) {
+      return c.json({ error: query.error }, 400);
+    }
+
+    return c.json(await getUrlHistory(c.env, url, query, c.get('auth').projectId));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Duplicate titles, meta descriptions and near-duplicate body copy across a host's analyzed pages
+app.get('/api/sites/:host/duplicates', async (c) => {
+  try {
+    const host = c.req.param('host').toLowerCase();
+    if (!/^[a-z0-9.-]+$/.test(host)) {
+      return c.json({ error: 'host must be a host name, e.g. example.com' }, 400);
+    }
+
+    const maxDistance = clampInt(c.req.query('maxDistance'), DEFAULT_MAX_DISTANCE, 0, MAX_DISTANCE_LIMIT);
+    return c.json(await getDuplicateReport(c.env, host, maxDistance, c.get('auth').projectId));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Add a URL to the watchlist
+app.post('/api/watchlist', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { url } = body;
+
+    if (!url || !isHttpUrl(url)) {
+      return c.json({ error: 'A valid http(s) URL is required' }, 400);
+    }
+
+    const settings = normalizeWatchSettings(body);
+    if ('error' in settings) {
+      return c.json({ error: settings.error }, 400);
+    }
+
+    return c.json(await createWatch(c.env, url, settings, c.get('auth').projectId), 201);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// List watched URLs
+app.get('/api/watchlist', async (c) => {
+  return c.json(await listWatches(c.env, c.get('auth').projectId));
+});
+
+// Get one watched URL with its recent alerts
+app.get('/api/watchlist/:id', async (c) => {
+  const watchId = Number(c.req.param('id'));
+  const watch = await getWatch(c.env, watchId, c.get('auth').projectId);
+
+  if (!watch) {
+    return c.json({ error: 'Watch not found' }, 404);
+  }
+
+  return c.json({ ...watch, alerts: await listAlerts(c.env, watchId) });
+});
+
+// Update the schedule, alert threshold, webhook or active flag of a watched URL
+app.patch('/api/watchlist/:id', async (c) => {
+  try {
+    const result = await updateWatch(c.env, Number(c.req.param('id')), await c.req.json(), c.get('auth').projectId);
+
+    if (!result) {
+      return c.json({ error: 'Watch not found' }, 404);
+    }
+    if ('error' in result) {
+      return c.json({ error: result.error }, 400);
+    }
+
+    return c.json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Stop watching a URL (its alert history is removed too)
+app.delete('/api/watchlist/:id', async (c) => {
+  const deleted = await deleteWatch(c.env, Number(c.req.param('id')), c.get('auth').projectId);
+
+  if (!deleted) {
+    return c.json({ error: 'Watch not found' }, 404);
+  }
+
+  return c.json({ deleted: true });
+});
+
+// Check a watched URL now instead of waiting for its schedule
+app.post('/api/watchlist/:id/check', rateLimit, async (c) => {
+  try {
+    const watch = await getWatch(c.env, Number(c.req.param('id')), c.get('auth').projectId);
+
+    if (!watch) {
+      return c.json({ error: 'Watch not found' }, 404);
+    }
+
+    return c.json(await checkWatch(c.env, watch));
+  } catch (error) {
+    if (error instanceof FetchError) {
+      return c.json(error.toJSON(), error.status);
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Stream a chat answer as Server-Sent Events: token events, then a final done event
+function streamChat(c: Context<AppEnv>, chat: PreparedChat) {
+  return streamSSE(c, async (stream) => {
+    await stream.writeSSE({
+      event: 'start',
+      data: JSON.stringify({ sessionId: chat.sessionId, analysisId: chat.grounding?.id ?? null })
+    });
+
+    const modelStream: ReadableStream<Uint8Array> = await c.env.AI.run(CHAT_MODEL, {
+      messages: chat.messages,
+      max_tokens: 1024,
+      stream: true
     });
 
-    const ragResults = await c.env.VECTORIZE.query(queryEmbedding.data[0], {
-      topK: 5,
-      returnMetadata: true
+    // Stop generating when the client goes away; whatever arrived is still saved
+    let interrupted = false;
+    const reader = modelStream.getReader();
+    stream.onAbort(() => {
+      interrupted = true;
+      reader.cancel().catch(() => undefined);
     });
 
-    // Build context from RAG results
-    const ragContext = ragResults.matches
-      .map((m) => m.metadata?.text || '')
-      .filter(Boolean)
-      .join('\n\n');
-
-    // Get user history from D1
-    const history = await c.env.DB.prepare(
-      'SELECT context FROM user_sessions WHERE session_id = ?'
-    ).bind(sessionId).first();
-
-    // Generate response with Llama 3.3
-    const response = await c.env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', {
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert SEO consultant. Use this knowledge base to provide accurate advice:\n\n${ragContext}\n\nPrevious context: ${history?.context || 'None'}`
-        },
-        {
-          role: 'user',
-          content: message
-        }
-      ],
-      max_tokens: 1024
+    let response = '';
+    let usage: Record<string, number> | null = null;
+    try {
+      for await (const event of readModelEvents(reader)) {
+        if (event.usage) usage = event.usage;
+        if (!event.response) continue;
+        response += event.response;
+        if (!stream.aborted) await stream.writeSSE({ event: 'token', data: JSON.stringify({ text: event.response }) });
+      }
+    } catch (error) {
+      if (!interrupted) throw error;
+    }
+
+    // Saving must survive the client disconnecting
+    const saved = recordChatTurn(c.env, chat, { response, toolCalls: [], usage }, interrupted ? { interrupted } : {});
+    c.executionCtx.waitUntil(saved);
+    if (interrupted) return;
+
+    await saved;
+    await stream.writeSSE({
+      event: 'done',
+      data: JSON.stringify({ sessionId: chat.sessionId, analysisId: chat.grounding?.id ?? null, sources: chat.sources, usage })
     });
+  }, async (error, stream) => {
+    await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: error.message }) });
+  });
+}
 
-    // Update session memory
-    await c.env.DB.prepare(
-      'INSERT OR REPLACE INTO user_sessions (session_id, context, last_active) VALUES (?, ?, CURRENT_TIMESTAMP)'
-    ).bind(sessionId, JSON.stringify({ lastMessage: message })).run();
+// Parse a chat request and load its session and grounding, or answer with the error
+async function chatRequest(c: Context<AppEnv>): Promise<PreparedChat | Response> {
+  const request = parseChatRequest(await c.req.json());
+
+  if ('error' in request) {
+    return c.json({ error: request.error }, 400);
+  }
+
+  const { projectId } = c.get('auth');
+  if (!await canAccessSession(c.env, request.sessionId, projectId)) {
+    return c.json({ error: 'Chat session not found' }, 404);
+  }
+
+  const chat = await prepareChat(c.env, { ...request, projectId });
+
+  if (!chat) {
+    return c.json({ error: 'Analysis not found' }, 404);
+  }
+
+  return chat;
+}
+
+// Chat endpoint for conversational SEO advice (streams when the client accepts text/event-stream)
+app.post('/api/chat', rateLimit, async (c) => {
+  try {
+    const chat = await chatRequest(c);
+
+    if (chat instanceof Response) {
+      return chat;
+    }
+
+    if (c.req.header('accept')?.includes('text/event-stream')) {
+      return streamChat(c, chat);
+    }
+
+    // Generate response with Llama 3.3, letting it call analysis tools
+    const reply = await runAssistant(c.env, chat.messages, chat.projectId);
+
+    // Update session memory, including tool calls and their results
+    await recordChatTurn(c.env, chat, reply);
 
     return c.json({
-      response: response.response,
-      sources: ragResults.matches.map((m) => m.metadata?.source || 'Unknown').filter(Boolean)
+      sessionId: chat.sessionId,
+      analysisId: chat.grounding?.id ?? null,
+      response: reply.response,
+      sources: chat.sources,
+      toolCalls: reply.toolCalls.map((call) => ({ name: call.name, arguments: call.arguments }))
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -173,217 +667,209 @@ app.post('/api/chat', async (c) => {
   }
 });
 
-// Get analysis history
+// Streaming chat over Server-Sent Events. Tool calls need the model's complete reply,
+// so streamed answers come from the grounding and history alone, without tools.
+app.post('/api/chat/stream', rateLimit, async (c) => {
+  try {
+    const chat = await chatRequest(c);
+    return chat instanceof Response ? chat : streamChat(c, chat);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// Get a chat session's transcript and running summary
+app.get('/api/chat/:sessionId', async (c) => {
+  const transcript = await getTranscript(c.env, c.req.param('sessionId'), c.get('auth').projectId);
+
+  if (!transcript) {
+    return c.json({ error: 'Chat session not found' }, 404);
+  }
+
+  return c.json(transcript);
+});
+
+// Clear a chat session
+app.delete('/api/chat/:sessionId', async (c) => {
+  const deleted = await clearTranscript(c.env, c.req.param('sessionId'), c.get('auth').projectId);
+
+  if (deleted === null) {
+    return c.json({ error: 'Chat session not found' }, 404);
+  }
+
+  return c.json({ deleted: true, messages: deleted });
+});
+
+// Get the project's analysis history
 app.get('/api/history', async (c) => {
-  const { results } = await c.env.DB.prepare(
-    'SELECT * FROM seo_analyses ORDER BY created_at DESC LIMIT 10'
-  ).all();
-
-  return c.json(results);
-});
-
-// Populate Vectorize (run once)
-app.get('/api/populate-vectorize', async (c) => {
-  const knowledge = [
-    { category: 'title-tags', text: 'Title tags should be 50-60 characters long. Include your primary keyword near the beginning.', source: 'SEO Best Practices' },
-    { category: 'meta-description', text: 'Meta descriptions should be 150-160 characters. Include a call-to-action and primary keywords naturally.', source: 'SEO Best Practices' },
-    { category: 'headings', text: 'Use H1 tags for main page titles (only one per page). H2-H6 for subheadings in hierarchical order.', source: 'SEO Best Practices' },
-    { category: 'content', text: 'Content should be at least 300 words for standard pages, 1000+ for cornerstone content.', source: 'Content Guidelines' },
-    { category: 'images', text: 'All images should have descriptive alt text. Compress images to reduce page load time.', source: 'Image Optimization' },
-    { category: 'internal-linking', text: 'Internal links help distribute page authority. Use descriptive anchor text.', source: 'Link Building' },
-    { category: 'page-speed', text: 'Page load time is a ranking factor. Aim for under 3 seconds.', source: 'Performance Optimization' },
-    { category: 'mobile-optimization', text: 'Mobile-first indexing means Google primarily uses mobile version for ranking.', source: 'Mobile SEO' },
-  ];
+  return c.json(await listRecentAnalyses(c.env, c.get('auth').projectId));
+});
 
+// Add or update knowledge base documents: one document, or { documents: [...] }
+app.post('/api/knowledge', requireAdmin, async (c) => {
   try {
-    for (const item of knowledge) {
-      const embedding = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', { text: item.text });
-      await c.env.VECTORIZE.insert([{
-        id: crypto.randomUUID(),
-        values: embedding.data[0],
-        metadata: item
-      }]);
-    }
-    return c.json({ success: true, message: 'Vectorize populated!' });
+    const body = await c.req.json();
+    const items: unknown[] = Array.isArray(body.documents) ? body.documents : [body];
+    if (!items.length) {
+      return c.json({ error: 'documents must not be empty' }, 400);
+    }
+
+    const documents: KnowledgeInput[] = [];
+    for (const [index, item] of items.entries()) {
+      const doc = normalizeKnowledgeInput(item && typeof item === 'object' ? (item as Record<string, unknown>) : {});
+      if ('error' in doc) {
+        return c.json({ error: items.length > 1 ? `documents[${index}]: ${doc.error}` : doc.error }, 400);
+      }
+      documents.push(doc);
+    }
+
+    const results = [];
+    for (const doc of documents) {
+      results.push(await ingestDocument(c.env, doc, body.reembed === true));
+    }
+    return c.json({ documents: results });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return c.json({ error: errorMessage }, 500);
   }
 });
 
-// Helper functions
-function extractTitle(html: string): string {
-  const match = html.match(/<title>(.*?)<\/title>/i);
-  return match ? match[1] : 'No title found';
-}
+// List knowledge base documents, optionally by category or source
+app.get('/api/knowledge', async (c) => {
+  const documents = await listDocuments(c.env, {
+    category: c.req.query('category'),
+    source: c.req.query('source')
+  });
+  return c.json({ documents });
+});
 
-function extractMetaDescription(html: string): string {
-  const match = html.match(/<meta\s+name=["']description["']\s+content=["'](.*?)["']/i);
-  return match ? match[1] : 'No meta description';
-}
+// Re-embed stored documents (all, or the given ids)
+app.post('/api/knowledge/reembed', requireAdmin, async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    if (body.ids !== undefined && !(Array.isArray(body.ids) && body.ids.every((id: unknown) => typeof id === 'string'))) {
+      return c.json({ error: 'ids must be an array of document ids' }, 400);
+    }
 
-function extractHeadings(html: string): string[] {
-  const regex = /<h[1-6][^>]*>(.*?)<\/h[1-6]>/gi;
-  const matches = html.match(regex) || [];
-  return matches.map(h => h.replace(/<[^>]*>/g, ''));
-}
+    const documents = await reembedDocuments(c.env, body.ids);
+    return c.json({ documents });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
-function extractImages(html: string): string[] {
-  const regex = /<img[^>]+src=["']([^"']+)["']/gi;
-  const matches = [...html.matchAll(regex)];
-  return matches.map(m => m[1]);
-}
+// Get a knowledge base document with its chunks
+app.get('/api/knowledge/:id', async (c) => {
+  const document = await getDocument(c.env, c.req.param('id'));
+  if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+  return c.json(document);
+});
 
-function extractLinks(html: string): string[] {
-  const regex = /<a[^>]+href=["']([^"']+)["']/gi;
-  const matches = [...html.matchAll(regex)];
-  return matches.map(m => m[1]);
-}
+// Delete a knowledge base document and its vectors
+app.delete('/api/knowledge/:id', requireAdmin, async (c) => {
+  const deleted = await deleteDocuments(c.env, [c.req.param('id')]);
+  if (!deleted.length) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+  return c.json({ deleted });
+});
 
-// SEO Analysis Helper Functions
-function calculateSeoScore(pageData: any): number {
-  let score = 100;
-  
-  // Title evaluation
-  if (!pageData.title || pageData.title === 'No title found') {
-    score -= 20;
-  } else if (pageData.title.length < 30) {
-    score -= 10;
-  } else if (pageData.title.length > 60) {
-    score -= 10;
-  }
-  
-  // Meta description evaluation
-  if (!pageData.metaDescription || pageData.metaDescription === 'No meta description') {
-    score -= 20;
-  } else if (pageData.metaDescription.length < 120) {
-    score -= 10;
-  } else if (pageData.metaDescription.length > 160) {
-    score -= 10;
-  }
-  
-  // Headings evaluation
-  if (pageData.headings.length === 0) {
-    score -= 15;
-  } else if (pageData.headings.length < 3) {
-    score -= 5;
-  }
-  
-  // Images evaluation
-  if (pageData.images.length > 20) {
-    score -= 10; // Too many images might slow down the page
-  }
-  
-  // Links evaluation
-  if (pageData.links.length < 3) {
-    score -= 10;
-  }
-  
-  return Math.max(0, Math.min(100, score));
-}
+// Prune every document of a category or source
+app.delete('/api/knowledge', requireAdmin, async (c) => {
+  const category = c.req.query('category');
+  const source = c.req.query('source');
+  if (!category && !source) {
+    return c.json({ error: 'category or source is required' }, 400);
+  }
 
-function findSeoIssues(pageData: any): string[] {
-  const issues = [];
-  
-  // Title issues
-  if (!pageData.title || pageData.title === 'No title found') {
-    issues.push('❌ Missing title tag - critical for SEO');
-  } else if (pageData.title.length < 30) {
-    issues.push(`⚠️ Title tag is too short (${pageData.title.length} characters) - should be 50-60 characters`);
-  } else if (pageData.title.length > 60) {
-    issues.push(`⚠️ Title tag is too long (${pageData.title.length} characters) - may be truncated in search results`);
-  }
-  
-  // Meta description issues
-  if (!pageData.metaDescription || pageData.metaDescription === 'No meta description') {
-    issues.push('❌ Missing meta description - important for click-through rates');
-  } else if (pageData.metaDescription.length < 120) {
-    issues.push(`⚠️ Meta description is too short (${pageData.metaDescription.length} characters) - should be 150-160 characters`);
-  } else if (pageData.metaDescription.length > 160) {
-    issues.push(`⚠️ Meta description is too long (${pageData.metaDescription.length} characters) - will be truncated`);
-  }
-  
-  // Heading issues
-  if (pageData.headings.length === 0) {
-    issues.push('❌ No heading tags (H1-H6) found - critical for content structure');
-  } else if (pageData.headings.length < 3) {
-    issues.push('⚠️ Low number of headings - consider adding more subheadings for better structure');
-  }
-  
-  // Image issues
-  if (pageData.images.length === 0) {
-    issues.push('ℹ️ No images found - visual content can improve engagement');
-  } else if (pageData.images.length > 20) {
-    issues.push(`⚠️ High number of images (${pageData.images.length}) - ensure optimization to prevent slow load times`);
-  }
-  
-  // Link issues
-  if (pageData.links.length < 3) {
-    issues.push('⚠️ Low number of internal links - improve site structure with more linking');
-  }
-  
-  return issues;
-}
+  const documents = await listDocuments(c.env, { category, source });
+  const deleted = await deleteDocuments(c.env, documents.map((d) => d.id));
+  return c.json({ deleted });
+});
 
-function generateRecommendations(pageData: any): Array<{ text: string; priority: string }> {
-  const recommendations = [];
-  
-  // Title recommendations
-  if (!pageData.title || pageData.title === 'No title found' || pageData.title.length < 50) {
-    recommendations.push({ 
-      text: '📝 Add a descriptive, keyword-rich title tag (50-60 characters)', 
-      priority: 'High' 
-    });
+// Seed the default SEO knowledge; safe to re-run
+app.get('/api/populate-vectorize', requireAdmin, async (c) => {
+  try {
+    const documents = await populateVectorize(c.env);
+    return c.json({ success: true, message: 'Vectorize populated!', documents });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
   }
-  
-  // Meta description recommendations
-  if (!pageData.metaDescription || pageData.metaDescription === 'No meta description') {
-    recommendations.push({ 
-      text: '📝 Create a compelling meta description (150-160 characters) with a call-to-action', 
-      priority: 'High' 
-    });
+});
+
+// Create a project (admin)
+app.post('/api/projects', requireAdmin, async (c) => {
+  try {
+    const project = await createProject(c.env, await c.req.json());
+
+    if ('error' in project) {
+      return c.json(project, 400);
+    }
+
+    return c.json(project, 201);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
   }
-  
-  // Heading recommendations
-  if (pageData.headings.length === 0) {
-    recommendations.push({ 
-      text: '🏗️ Implement proper heading structure (H1 for title, H2-H6 for sections)', 
-      priority: 'High' 
-    });
+});
+
+// List projects with their active key counts (admin)
+app.get('/api/projects', requireAdmin, async (c) => {
+  return c.json({ projects: await listProjects(c.env) });
+});
+
+// Issue an API key for a project (admin); the plaintext key is only returned here
+app.post('/api/projects/:id/keys', requireAdmin, async (c) => {
+  try {
+    const projectId = Number(c.req.param('id'));
+    if (!await getProject(c.env, projectId)) {
+      return c.json({ error: 'Project not found' }, 404);
+    }
+
+    const input = normalizeKeyInput(await c.req.json().catch(() => ({})));
+    if ('error' in input) {
+      return c.json(input, 400);
+    }
+
+    return c.json(await createApiKey(c.env, projectId, input), 201);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
   }
-  
-  // Universal recommendations
-  recommendations.push({ 
-    text: '🖼️ Ensure all images have descriptive alt text for accessibility and SEO', 
-    priority: 'Medium' 
-  });
-  
-  recommendations.push({ 
-    text: '⚡ Optimize page load speed - compress images, minify CSS/JS, use CDN', 
-    priority: 'Medium' 
-  });
-  
-  recommendations.push({ 
-    text: '🔗 Add 3-5 internal links to relevant pages to improve site structure', 
-    priority: 'Medium' 
-  });
-  
-  recommendations.push({ 
-    text: '📱 Verify mobile responsiveness - Google uses mobile-first indexing', 
-    priority: 'Medium' 
-  });
-  
-  recommendations.push({ 
-    text: '🔒 Ensure HTTPS is properly configured across the entire site', 
-    priority: 'Low' 
-  });
-  
-  recommendations.push({ 
-    text: '🗺️ Submit XML sitemap to Google Search Console for better indexing', 
-    priority: 'Low' 
-  });
-  
-  return recommendations;
+});
+
+// List a project's keys by prefix, including revoked ones (admin)
+app.get('/api/projects/:id/keys', requireAdmin, async (c) => {
+  const projectId = Number(c.req.param('id'));
+  if (!await getProject(c.env, projectId)) {
+    return c.json({ error: 'Project not found' }, 404);
+  }
+  return c.json({ keys: await listApiKeys(c.env, projectId) });
+});
+
+// Revoke an API key (admin)
+app.delete('/api/keys/:id', requireAdmin, async (c) => {
+  const revoked = await revokeApiKey(c.env, Number(c.req.param('id')));
+  if (!revoked) {
+    return c.json({ error: 'Key not found or already revoked' }, 404);
+  }
+  return c.json({ revoked: true });
+});
+
+// Cron trigger: advance long-running background jobs
+async function scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+  ctx.waitUntil(advanceCrawls(env));
+  ctx.waitUntil(advanceBatches(env));
+  ctx.waitUntil(backfillAnalyses(env));
+  ctx.waitUntil(runDueWatches(env));
 }
 
-export default app;
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+  scheduled
+};
\ No newline at end of file